@@ -9,14 +9,25 @@ import { Duration } from 'effect';
 // --- Debounce Configuration ---
 
 /**
- * Duration to wait after the last event update before emitting.
+ * Default duration to wait after the last event update before emitting.
  * This consolidates streaming chunks into a single observation.
+ * Only parts without a completion marker are debounced; override with
+ * `debounceMs` in the config.
  *
  * Rationale: 10 seconds is long enough to capture all streaming chunks
  * for a typical LLM response, but not so long that it delays feedback.
  */
 export const DEBOUNCE_DURATION = Duration.seconds(10);
 
+/**
+ * How long a part is held when its message hasn't been registered yet.
+ * Parts still waiting after this are dropped (and counted in the logs).
+ *
+ * Rationale: assistant messages are only registered once complete, and a
+ * long agentic response can keep its first parts waiting for many minutes.
+ */
+export const ORPHAN_PART_TIMEOUT = Duration.minutes(30);
+
 // --- Queue Configuration ---
 
 /**
@@ -28,6 +39,24 @@ export const DEBOUNCE_DURATION = Duration.seconds(10);
  */
 export const QUEUE_CAPACITY = 1000;
 
+/**
+ * Prefix of the files (under spoolDir) the `spill` overflow policy writes
+ * events to while the queue is full. Each queue has its own file, named after
+ * its process; files left by processes that are gone are queued on startup.
+ */
+export const QUEUE_SPILL_FILE_PREFIX = 'queue-spill-';
+
+/**
+ * How often spilled events are moved back into the queue.
+ */
+export const QUEUE_SPILL_REFILL_INTERVAL = Duration.millis(250);
+
+/**
+ * How often newly dropped events are reported in the logs.
+ * Reporting in intervals keeps an overloaded queue from flooding the log.
+ */
+export const QUEUE_DROP_REPORT_INTERVAL = Duration.seconds(30);
+
 // --- Retry Configuration ---
 
 /**
@@ -49,6 +78,147 @@ export const RETRY_BASE_DELAY = Duration.seconds(1);
  */
 export const RETRY_MAX_DELAY = Duration.seconds(30);
 
+// --- Ingestion Configuration ---
+
+/**
+ * Number of buffered events that triggers a Langfuse ingestion request.
+ * Smaller batches are sent on every flush.
+ *
+ * Rationale: matches the Langfuse SDK's `flushAt` default, keeping requests
+ * well below the ingestion API's payload limit.
+ */
+export const INGESTION_BATCH_SIZE = 15;
+
+/**
+ * Timeout for a single Langfuse ingestion request.
+ */
+export const INGESTION_REQUEST_TIMEOUT = Duration.seconds(10);
+
+/**
+ * Maximum number of observations whose first startTime is remembered, so
+ * updates (sent as `*-create` events) keep it. The oldest are forgotten first.
+ */
+export const INGESTION_MAX_TRACKED_OBSERVATIONS = 1000;
+
+// --- Circuit Breaker Configuration ---
+
+/**
+ * Consecutive failed Langfuse requests after which the circuit opens.
+ * While open, events are buffered instead of sent.
+ *
+ * Rationale: trips during the first batch's retries, so an outage stops
+ * every later call from running its own retry schedule.
+ */
+export const CIRCUIT_FAILURE_THRESHOLD = 5;
+
+/**
+ * How long the circuit stays open before a health check probes Langfuse.
+ */
+export const CIRCUIT_RESET_TIMEOUT = Duration.seconds(30);
+
+/**
+ * Maximum events buffered in memory while the circuit is open.
+ * Older events beyond this stay in the outbox and are replayed on the next run.
+ */
+export const CIRCUIT_BUFFER_MAX_EVENTS = 10_000;
+
+// --- OTLP Configuration ---
+
+/**
+ * Timeout for a single OTLP/HTTP export request.
+ */
+export const OTLP_REQUEST_TIMEOUT = Duration.seconds(10);
+
+/**
+ * Spans that received no updates for this long are exported even without an
+ * end time. Bounds memory for observations that never finish (e.g. idle sessions).
+ */
+export const OTLP_STALE_AFTER = Duration.minutes(10);
+
+/**
+ * How long an ended span must go without updates before the background export
+ * sends it. Fields like a generation's input are often back-filled after it ended.
+ */
+export const OTLP_SETTLE_AFTER = Duration.seconds(30);
+
+/**
+ * Maximum number of sent span ids remembered so later updates to them are
+ * dropped rather than exported again as duplicates. The oldest are forgotten
+ * first; a late update to one of those is exported as a new partial span.
+ */
+export const OTLP_SENT_MAX_SPANS = 1000;
+
+// --- Shutdown Configuration ---
+
+/**
+ * Maximum time to spend draining queued and debounced events on shutdown.
+ * Events still pending after this are dropped so the host process can exit.
+ */
+export const SHUTDOWN_DRAIN_TIMEOUT = Duration.seconds(5);
+
+/**
+ * Maximum time to wait for the final Langfuse flush on shutdown.
+ */
+export const SHUTDOWN_FLUSH_TIMEOUT = Duration.seconds(5);
+
+/**
+ * How often to check whether the processor has taken every queued event
+ * before the queue is closed during shutdown.
+ */
+export const SHUTDOWN_POLL_INTERVAL = Duration.millis(50);
+
+// --- Processed IDs Configuration ---
+
+/**
+ * File (under spoolDir) where the persistent ProcessedIds store keeps its keys.
+ * One `<timestamp>\t<key>` line per processed event.
+ */
+export const PROCESSED_IDS_FILE = 'processed-ids.tsv';
+
+// --- Session State Configuration ---
+
+/**
+ * Prefix and suffix of the session snapshot files (under spoolDir).
+ * Idle sessions are evicted from memory to `session-<sessionId>.json`.
+ */
+export const SESSION_FILE_PREFIX = 'session-';
+export const SESSION_FILE_SUFFIX = '.json';
+
+/**
+ * How often sessions are checked for inactivity (see sessionIdleTimeoutMs).
+ */
+export const SESSION_EVICTION_INTERVAL = Duration.minutes(1);
+
+/**
+ * Timeout for looking up a session's title from OpenCode when its trace is
+ * created without a session.created event (e.g. resumed after a restart).
+ */
+export const SESSION_LOOKUP_TIMEOUT = Duration.seconds(2);
+
+// --- Outbox Configuration ---
+
+/**
+ * Prefix of the outbox segment files (under spoolDir).
+ * Each segment is a JSONL file of outgoing ingestion events and acknowledgements.
+ */
+export const OUTBOX_FILE_PREFIX = 'outbox-';
+
+/**
+ * Number of events after which the outbox starts a new segment.
+ *
+ * Rationale: segments are deleted once every event in them is acknowledged,
+ * so bounded segments keep one undeliverable event from pinning a large file.
+ */
+export const OUTBOX_SEGMENT_MAX_EVENTS = 1000;
+
+// --- Local Store Configuration ---
+
+/**
+ * Maximum number of generation models the local exporter remembers for
+ * upserts that omit the model. The least recently updated are forgotten first.
+ */
+export const LOCAL_MAX_TRACKED_GENERATIONS = 1000;
+
 // --- Logging Configuration ---
 
 /**
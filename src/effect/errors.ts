@@ -17,6 +17,27 @@ export class LangfuseApiError extends Data.TaggedError('LangfuseApiError')<{
   readonly retryable: boolean;
 }> {}
 
+/**
+ * Operations a TraceExporter performs.
+ */
+export type ExporterOperation =
+  | 'upsertTrace'
+  | 'upsertGeneration'
+  | 'upsertSpan'
+  | 'flush'
+  | 'shutdown';
+
+/**
+ * Error when a trace exporter fails to deliver data to its destination.
+ */
+export class ExporterError extends Data.TaggedError('ExporterError')<{
+  readonly message: string;
+  readonly exporter: string;
+  readonly operation: ExporterOperation;
+  readonly cause?: unknown;
+  readonly retryable: boolean;
+}> {}
+
 /**
  * Error when configuration is invalid or missing.
  */
@@ -55,6 +76,7 @@ export class SessionStateError extends Data.TaggedError('SessionStateError')<{
  */
 export type PluginError =
   | LangfuseApiError
+  | ExporterError
   | ConfigurationError
   | EventProcessingError
   | QueueError
@@ -7,37 +7,132 @@
 import { Effect, Fiber, Layer, ManagedRuntime } from 'effect';
 
 // Import services (will be implemented in services/)
-import { EventQueueLive, type EventQueue } from './services/EventQueue.js';
-import { SessionStateLive, type SessionState } from './services/SessionState.js';
-import { ProcessedIdsLive, type ProcessedIds } from './services/ProcessedIds.js';
-import { LangfuseClientLive, type LangfuseClient } from './services/LangfuseClient.js';
+import { EventQueueWithOverflow, type EventQueue } from './services/EventQueue.js';
+import {
+  SessionStateLive,
+  SessionStatePersistent,
+  type SessionState,
+} from './services/SessionState.js';
+import {
+  ProcessedIdsLive,
+  ProcessedIdsPersistent,
+  type ProcessedIds,
+} from './services/ProcessedIds.js';
+import {
+  LangfuseClient,
+  LangfuseClientLive,
+  makeLangfuseExporter,
+} from './services/LangfuseClient.js';
+import { makeLocalExporter } from './services/LocalExporter.js';
+import { OutboxPersistent } from './services/Outbox.js';
+import { makeOtlpExporter } from './services/OtlpExporter.js';
+import { TraceExporter, fanOutExporters } from './services/TraceExporter.js';
 import { PinoLoggerLive } from './services/PinoLogger.js';
 import type { LangfuseApiError } from './errors.js';
+import { loadConfig } from '../lib/config.js';
+
+/**
+ * ProcessedIds layer selected by config (in-memory by default, or persisted to spoolDir).
+ */
+const ProcessedIdsConfigured = Layer.unwrapEffect(
+  Effect.sync(() => {
+    const config = loadConfig({});
+    return config.processedIdsStore === 'persistent'
+      ? ProcessedIdsPersistent(config)
+      : ProcessedIdsLive;
+  })
+);
+
+/**
+ * EventQueue with the overflow policy from config, so a full queue never blocks OpenCode
+ * unless `block` is configured.
+ */
+const EventQueueConfigured = Layer.unwrapEffect(
+  Effect.sync(() => EventQueueWithOverflow(loadConfig({})))
+);
+
+/**
+ * SessionState selected by config (evicting idle sessions to spoolDir by default,
+ * or kept in memory).
+ */
+const SessionStateConfigured = Layer.unwrapEffect(
+  Effect.sync(() => {
+    const config = loadConfig({});
+    return config.sessionStateStore === 'persistent'
+      ? SessionStatePersistent(config)
+      : SessionStateLive;
+  })
+);
+
+/**
+ * Outbox persisted to spoolDir, so undelivered Langfuse events survive restarts.
+ */
+const OutboxConfigured = Layer.unwrapEffect(Effect.sync(() => OutboxPersistent(loadConfig({}))));
+
+/**
+ * TraceExporter fanning out to every exporter listed in config.exporters.
+ * Exporters are shut down (sending anything still buffered) when the runtime is disposed,
+ * before their background retries are interrupted.
+ */
+const TraceExporterConfigured = Layer.scoped(
+  TraceExporter,
+  Effect.gen(function* () {
+    const langfuseClient = yield* LangfuseClient;
+    const config = langfuseClient.config;
+
+    const exporters = yield* Effect.forEach(config.exporters, (kind) => {
+      switch (kind) {
+        case 'langfuse':
+          return Effect.succeed(makeLangfuseExporter(langfuseClient));
+        case 'otlp':
+          return makeOtlpExporter(config);
+        case 'local':
+          return makeLocalExporter(config);
+      }
+    });
+
+    yield* Effect.logInfo('Trace exporters configured', { exporters: config.exporters });
+
+    const exporter = yield* fanOutExporters(exporters, config);
+    yield* Effect.addFinalizer(() => Effect.ignore(exporter.shutdown));
+    return exporter;
+  })
+);
 
 /**
  * Combined layer with all services required by the plugin.
  *
  * Layer dependency graph:
  *   PinoLoggerLive (no deps) - MUST be first to silence console
- *   EventQueueLive (no deps)
- *   SessionStateLive (no deps)
- *   ProcessedIdsLive (no deps)
- *   LangfuseClientLive (logs during init)
+ *   EventQueueConfigured (overflow policy from config)
+ *   SessionStateConfigured (memory, or evicts idle sessions to spoolDir)
+ *   ProcessedIdsConfigured (memory or persistent, logs during init)
+ *   OutboxConfigured (replays undelivered events from spoolDir)
+ *   LangfuseClientLive (logs during init, uses Outbox)
+ *   TraceExporterConfigured (fans out to config.exporters, uses LangfuseClient)
  *
  * We use Layer.provide to ensure PinoLoggerLive is fully active
  * before LangfuseClientLive runs (which logs during construction).
  */
 export const PluginLive = Layer.mergeAll(
-  EventQueueLive,
-  SessionStateLive,
-  ProcessedIdsLive,
-  LangfuseClientLive
+  EventQueueConfigured,
+  SessionStateConfigured,
+  ProcessedIdsConfigured,
+  TraceExporterConfigured.pipe(
+    Layer.provideMerge(LangfuseClientLive),
+    Layer.provide(OutboxConfigured)
+  )
 ).pipe(Layer.provide(PinoLoggerLive));
 
 /**
  * Type of the full plugin context (all services).
  */
-export type PluginContext = EventQueue | SessionState | ProcessedIds | LangfuseClient;
+export type PluginContext =
+  | EventQueue
+  | SessionState
+  | ProcessedIds
+  | LangfuseClient
+  | TraceExporter;
 
 /**
  * Error type that can occur during plugin initialization.
@@ -1,12 +1,31 @@
 /**
  * EventQueue service - bounded queue for incoming OpenCode events.
  *
- * Uses Queue.bounded for backpressure: producers block when queue is full.
+ * What happens when the queue is full depends on the overflow policy:
+ * - block: producers wait for space (backpressure)
+ * - dropping: the new event is dropped
+ * - sliding: the oldest queued event is dropped
+ * - spill: events overflow to a file in spoolDir and are queued again later
+ *   (one file per queue, so processes sharing a spoolDir keep their own events)
+ *
+ * Only `block` can slow down the producer (the OpenCode event hook). Dropped
+ * events are counted per session and reported periodically.
  */
 
-import { Context, Effect, Layer, Queue } from 'effect';
+import { Context, Effect, Layer, Option, Queue, Schedule, type Scope } from 'effect';
+import { existsSync } from 'node:fs';
+import { appendFile, mkdir, readdir, readFile, rename, unlink } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 
-import { QUEUE_CAPACITY } from '../constants.js';
+import type { LangfuseExporterConfig, QueueOverflowPolicy } from '../../lib/config.js';
+import { adoptSpoolFile, isSpoolFileInUse, spoolFileOwner } from '../../lib/spool-files.js';
+import {
+  QUEUE_CAPACITY,
+  QUEUE_DROP_REPORT_INTERVAL,
+  QUEUE_SPILL_FILE_PREFIX,
+  QUEUE_SPILL_REFILL_INTERVAL,
+} from '../constants.js';
 import type { PluginEvent } from '../streams/types.js';
 
 /**
@@ -15,7 +34,8 @@ import type { PluginEvent } from '../streams/types.js';
 export interface EventQueue {
   /**
    * Offer an event to the queue.
-   * Blocks if the queue is at capacity (backpressure).
+   * Only blocks when the policy is `block` and the queue is at capacity.
+   * Returns false if the event was dropped.
    */
   readonly offer: (event: PluginEvent) => Effect.Effect<boolean>;
 
@@ -30,6 +50,16 @@ export interface EventQueue {
    */
   readonly queue: Queue.Queue<PluginEvent>;
 
+  /**
+   * Number of events waiting, including spilled ones.
+   */
+  readonly size: Effect.Effect<number>;
+
+  /**
+   * Number of events dropped because the queue was full, overall or for one session.
+   */
+  readonly dropped: (sessionId?: string) => Effect.Effect<number>;
+
   /**
    * Shutdown the queue, signaling no more events will be offered.
    */
@@ -41,37 +71,230 @@ export interface EventQueue {
  */
 export const EventQueue = Context.GenericTag<EventQueue>('EventQueue');
 
+// Spill files of the queues open in this process
+const openSpillFiles = new Set<string>();
+let spillFileCounter = 0;
+
+/**
+ * Whether the queue that owns a spill file may still be running.
+ */
+function isSpillFileInUse(file: string): boolean {
+  const owner = spoolFileOwner(file);
+  const pid = Number(owner.slice(QUEUE_SPILL_FILE_PREFIX.length).split('-')[0]);
+  return isSpoolFileInUse(owner, pid, openSpillFiles);
+}
+
 /**
- * Live implementation of EventQueue using Queue.bounded.
+ * Create an event queue with the given overflow policy.
+ * `spoolDir` is where the `spill` policy keeps overflowing events.
  */
-export const EventQueueLive = Layer.effect(
-  EventQueue,
+export const makeEventQueue = (
+  capacity: number,
+  overflow: QueueOverflowPolicy = 'block',
+  spoolDir: string = tmpdir()
+): Effect.Effect<EventQueue, never, Scope.Scope> =>
   Effect.gen(function* () {
-    const queue = yield* Queue.bounded<PluginEvent>(QUEUE_CAPACITY);
+    const queue = yield* Queue.bounded<PluginEvent>(capacity);
+
+    let droppedTotal = 0;
+    let reportedTotal = 0;
+    const droppedBySession = new Map<string, number>();
+
+    const recordDrop = (event: PluginEvent) =>
+      Effect.sync(() => {
+        droppedTotal++;
+        droppedBySession.set(event.sessionId, (droppedBySession.get(event.sessionId) ?? 0) + 1);
+      });
+
+    const offerDropping = (event: PluginEvent) =>
+      Effect.suspend(() =>
+        queue.unsafeOffer(event) ? Effect.succeed(true) : Effect.as(recordDrop(event), false)
+      );
+
+    const offerSliding = (event: PluginEvent) =>
+      Effect.gen(function* () {
+        if (yield* Queue.isShutdown(queue)) return false;
+        // Make room by dropping the oldest events
+        while (!queue.unsafeOffer(event)) {
+          const oldest = yield* Queue.poll(queue);
+          if (Option.isSome(oldest)) yield* recordDrop(oldest.value);
+        }
+        return true;
+      });
+
+    // --- Spill to disk ---
+
+    const spillFile = `${QUEUE_SPILL_FILE_PREFIX}${process.pid}-${spillFileCounter++}.jsonl`;
+    const spillPath = join(spoolDir, spillFile);
+    // Serializes spill file access between producers and the refill loop
+    const spillLock = yield* Effect.makeSemaphore(1);
+    // Set while the spill file has events, so new events queue up behind them
+    let spilling = false;
+    // Events in the spill file, and events taken from it that are not queued yet
+    let spilled = 0;
+    let refilling = 0;
+
+    const parseSpilled = (content: string): PluginEvent[] =>
+      content.split('\n').flatMap((line) => {
+        if (!line.trim()) return [];
+        try {
+          return [JSON.parse(line) as PluginEvent];
+        } catch {
+          return []; // Skip a torn line from an interrupted write
+        }
+      });
+
+    // The refill renames the spill file here until its events are queued,
+    // so a crash meanwhile leaves them for the next run to adopt
+    const claimPath = `${spillPath}.refilling`;
+
+    const claimSpilled = Effect.promise(() =>
+      rename(spillPath, claimPath)
+        .then(() => readFile(claimPath, 'utf-8'))
+        .catch(() => '')
+    ).pipe(Effect.map(parseSpilled));
+
+    if (overflow === 'spill') {
+      yield* Effect.acquireRelease(
+        Effect.sync(() => openSpillFiles.add(spillFile)),
+        () => Effect.sync(() => openSpillFiles.delete(spillFile))
+      );
+
+      // Take over the files of queues that are gone, so their events are queued again
+      const adopted = yield* Effect.promise(async () => {
+        await mkdir(spoolDir, { recursive: true }).catch(() => undefined);
+        const files = await readdir(spoolDir).catch(() => [] as string[]);
+        let content = '';
+        for (const file of files.sort()) {
+          if (!file.startsWith(QUEUE_SPILL_FILE_PREFIX) || isSpillFileInUse(file)) continue;
+          content += await adoptSpoolFile(join(spoolDir, file), spillPath);
+        }
+        return parseSpilled(content).length;
+      });
+      spilled = adopted;
+      spilling = adopted > 0;
+    }
+
+    const offerSpill = (event: PluginEvent) =>
+      Effect.gen(function* () {
+        // Once spilling, keep spilling until the refill catches up so order is kept
+        if (!spilling && queue.unsafeOffer(event)) return true;
+
+        return yield* Effect.tryPromise(() =>
+          appendFile(spillPath, `${JSON.stringify(event)}\n`, 'utf-8')
+        ).pipe(
+          Effect.tap(() =>
+            Effect.sync(() => {
+              spilling = true;
+              spilled++;
+            })
+          ),
+          Effect.as(true),
+          Effect.catchAll((error) =>
+            Effect.logWarning('Failed to spill event to disk', { error: String(error) }).pipe(
+              Effect.zipRight(recordDrop(event)),
+              Effect.as(false)
+            )
+          ),
+          spillLock.withPermits(1)
+        );
+      });
+
+    /**
+     * Move spilled events back into the queue, waiting for space as needed.
+     * Spilling stops once no events were appended to the file meanwhile.
+     */
+    const refill = Effect.gen(function* () {
+      if (!spilling) return;
+
+      const events = yield* claimSpilled.pipe(
+        Effect.tap((claimed) =>
+          Effect.sync(() => {
+            // Events spilled from now on go to a new spill file
+            spilled = 0;
+            refilling = claimed.length;
+          })
+        ),
+        spillLock.withPermits(1)
+      );
+
+      for (const event of events) {
+        // A blocked offer already counts toward the queue's size
+        refilling--;
+        yield* Queue.offer(queue, event);
+      }
+      yield* Effect.promise(() => unlink(claimPath).catch(() => undefined));
+
+      // Events spilled meanwhile started a new file, which keeps the queue spilling
+      yield* Effect.sync(() => {
+        spilling = existsSync(spillPath);
+      }).pipe(spillLock.withPermits(1));
+    });
+
+    if (overflow === 'spill') {
+      yield* refill.pipe(
+        Effect.repeat(Schedule.spaced(QUEUE_SPILL_REFILL_INTERVAL)),
+        Effect.forkScoped
+      );
+    }
+
+    if (overflow !== 'block') {
+      yield* Effect.suspend(() => {
+        if (droppedTotal === reportedTotal) return Effect.void;
+        const newlyDropped = droppedTotal - reportedTotal;
+        reportedTotal = droppedTotal;
+        return Effect.logWarning('Events dropped because the event queue was full', {
+          policy: overflow,
+          dropped: newlyDropped,
+          total: droppedTotal,
+        });
+      }).pipe(
+        Effect.repeat(Schedule.spaced(QUEUE_DROP_REPORT_INTERVAL)),
+        Effect.delay(QUEUE_DROP_REPORT_INTERVAL),
+        Effect.forkScoped
+      );
+    }
+
+    const offers: Record<QueueOverflowPolicy, (event: PluginEvent) => Effect.Effect<boolean>> = {
+      block: (event) => Queue.offer(queue, event),
+      dropping: offerDropping,
+      sliding: offerSliding,
+      spill: offerSpill,
+    };
 
     return EventQueue.of({
-      offer: (event) => Queue.offer(queue, event),
+      offer: offers[overflow] ?? offers.block,
       take: Queue.take(queue),
       queue,
+      // Under the spill lock, so events being claimed by the refill are counted
+      size: Effect.gen(function* () {
+        const queued = Math.max(0, yield* Queue.size(queue));
+        return queued + refilling + (spilling && existsSync(spillPath) ? spilled : 0);
+      }).pipe(spillLock.withPermits(1)),
+      dropped: (sessionId) =>
+        Effect.sync(() =>
+          sessionId === undefined ? droppedTotal : (droppedBySession.get(sessionId) ?? 0)
+        ),
       shutdown: Queue.shutdown(queue),
     });
-  })
-);
+  });
+
+/**
+ * Live implementation of EventQueue using Queue.bounded (blocks when full).
+ */
+export const EventQueueLive = Layer.scoped(EventQueue, makeEventQueue(QUEUE_CAPACITY));
+
+/**
+ * EventQueue applying config.queueOverflow when full (spilling to config.spoolDir).
+ */
+export const EventQueueWithOverflow = (config: LangfuseExporterConfig) =>
+  Layer.scoped(EventQueue, makeEventQueue(QUEUE_CAPACITY, config.queueOverflow, config.spoolDir));
 
 /**
  * Test implementation with a smaller queue for unit tests.
  */
-export const EventQueueTest = (capacity: number = 10) =>
-  Layer.effect(
-    EventQueue,
-    Effect.gen(function* () {
-      const queue = yield* Queue.bounded<PluginEvent>(capacity);
-
-      return EventQueue.of({
-        offer: (event) => Queue.offer(queue, event),
-        take: Queue.take(queue),
-        queue,
-        shutdown: Queue.shutdown(queue),
-      });
-    })
-  );
+export const EventQueueTest = (
+  capacity: number = 10,
+  overflow: QueueOverflowPolicy = 'block',
+  spoolDir?: string
+) => Layer.scoped(EventQueue, makeEventQueue(capacity, overflow, spoolDir));
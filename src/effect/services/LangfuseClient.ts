@@ -1,69 +1,49 @@
 /**
- * LangfuseClient service - Effect wrapper for Langfuse SDK.
+ * LangfuseClient service - Effect client for the Langfuse ingestion API.
  *
- * Provides retry logic with exponential backoff and graceful degradation.
+ * Sends batches with fetch, retries failed events with exponential backoff,
+ * and reports real HTTP failures as LangfuseApiError.
+ * LangfuseTraceExporter adapts it to the backend-neutral TraceExporter service.
  */
 
-import { Context, Effect, Layer, Schedule } from 'effect';
-import Langfuse from 'langfuse';
+import { Context, Duration, Effect, Either, FiberSet, Layer, Schedule, type Scope } from 'effect';
 
 import { loadConfig, type LangfuseExporterConfig } from '../../lib/config.js';
-import { MAX_RETRY_ATTEMPTS, RETRY_BASE_DELAY, RETRY_MAX_DELAY } from '../constants.js';
-import { LangfuseApiError } from '../errors.js';
-
-// Re-export data types from the old client
-export interface TraceData {
-  id: string;
-  sessionId: string;
-  name: string;
-  metadata?: Record<string, string | number | boolean | string[] | null>;
-  input?: unknown;
-  output?: unknown;
-  userId?: string;
-  tags?: string[];
-}
-
-export interface GenerationData {
-  id?: string;
-  traceId: string;
-  parentObservationId?: string;
-  name: string;
-  model?: string;
-  modelParameters?: Record<string, string | number | boolean | null>;
-  input?: unknown;
-  output?: unknown;
-  /** @deprecated Use usageDetails instead */
-  usage?: {
-    input?: number;
-    output?: number;
-    total?: number;
-  };
-  /**
-   * Detailed usage metrics (tokens).
-   * Keys: input, output, total, reasoning, cache_read, cache_write, etc.
-   */
-  usageDetails?: Record<string, number>;
-  /**
-   * Cost details in USD.
-   * Keys: total, input, output, etc.
-   */
-  costDetails?: Record<string, number>;
-  metadata?: Record<string, string | number | boolean | string[] | null>;
-  startTime?: Date;
-  endTime?: Date;
-}
+import {
+  createIngestionEvent,
+  encodeIngestionBatch,
+  getAuthorizationHeader,
+  getHealthUrl,
+  getIngestionUrl,
+  isRetryableStatus,
+  parseIngestionResponse,
+  type IngestionEvent,
+  type IngestionEventType,
+  type IngestionFailure,
+} from '../../lib/langfuse-ingestion.js';
+import {
+  CIRCUIT_BUFFER_MAX_EVENTS,
+  CIRCUIT_FAILURE_THRESHOLD,
+  CIRCUIT_RESET_TIMEOUT,
+  INGESTION_BATCH_SIZE,
+  INGESTION_MAX_TRACKED_OBSERVATIONS,
+  INGESTION_REQUEST_TIMEOUT,
+  MAX_RETRY_ATTEMPTS,
+  RETRY_BASE_DELAY,
+  RETRY_MAX_DELAY,
+} from '../constants.js';
+import { ExporterError, LangfuseApiError, type ExporterOperation } from '../errors.js';
+import { Outbox } from './Outbox.js';
+import {
+  TraceExporter,
+  type GenerationData,
+  type ObservationLevel,
+  type SpanData,
+  type TraceData,
+} from './TraceExporter.js';
 
-export interface SpanData {
-  id?: string;
-  traceId: string;
-  parentObservationId?: string;
-  name: string;
-  input?: unknown;
-  output?: unknown;
-  metadata?: Record<string, string | number | boolean | string[] | null>;
-  startTime?: Date;
-  endTime?: Date;
-}
+// Re-export data types shared with other exporters
+export type { GenerationData, ObservationLevel, SpanData, TraceData };
 
 /**
  * LangfuseClient service interface.
@@ -112,84 +92,425 @@ export const LangfuseClient = Context.GenericTag<LangfuseClient>('LangfuseClient
 
 /**
  * Retry schedule for Langfuse API calls.
- * Exponential backoff with jitter, capped at max delay, limited to N attempts.
+ * Exponential backoff with jitter, capped at max delay, limited to N retries.
  *
  * Pattern: exponential(base) -> jittered -> capped -> limited
  */
 const retrySchedule = Schedule.exponential(RETRY_BASE_DELAY).pipe(
   Schedule.jittered,
-  Schedule.intersect(Schedule.spaced(RETRY_MAX_DELAY)), // Cap max delay
-  Schedule.upTo(MAX_RETRY_ATTEMPTS) // Limit total attempts
+  Schedule.union(Schedule.spaced(RETRY_MAX_DELAY)), // Cap max delay (union takes the shorter)
+  Schedule.intersect(Schedule.recurs(MAX_RETRY_ATTEMPTS)) // Limit total attempts
 );
 
 type LangfuseOperation = 'createTrace' | 'createGeneration' | 'createSpan' | 'flush' | 'shutdown';
 
+type CircuitState = 'closed' | 'open' | 'half-open';
+
 /**
  * Create a LangfuseApiError from an unknown error.
  */
-function toLangfuseError(error: unknown, operation: LangfuseOperation): LangfuseApiError {
+function toLangfuseError(
+  error: unknown,
+  operation: LangfuseOperation,
+  retryable = true
+): LangfuseApiError {
   return new LangfuseApiError({
     message: error instanceof Error ? error.message : String(error),
     operation,
     cause: error,
-    retryable: true,
+    retryable,
   });
 }
 
 /**
- * Wrap a synchronous Langfuse SDK call with retry logic.
- * Use this for operations that don't return a Promise (trace, generation, span creation).
+ * Remember an observation's first startTime, forgetting the oldest past
+ * INGESTION_MAX_TRACKED_OBSERVATIONS.
  */
-function withRetrySync<A>(
-  operation: LangfuseOperation,
-  fn: () => A
-): Effect.Effect<A, LangfuseApiError> {
-  return Effect.try({
-    try: fn,
-    catch: (error) => toLangfuseError(error, operation),
-  }).pipe(
-    Effect.retry(retrySchedule),
-    Effect.catchAll((error) =>
-      Effect.gen(function* () {
-        yield* Effect.logError(`Langfuse ${operation} failed after retries`, {
-          error: error.message,
-          operation,
-        });
-        return yield* Effect.fail(error);
-      })
-    )
-  );
+function rememberStartTime(startTimes: Map<string, Date>, id: string, startTime: Date): void {
+  startTimes.delete(id);
+  startTimes.set(id, startTime);
+  if (startTimes.size > INGESTION_MAX_TRACKED_OBSERVATIONS) {
+    startTimes.delete(startTimes.keys().next().value as string);
+  }
 }
 
 /**
- * Wrap an asynchronous Langfuse SDK call with retry logic.
- * Use this for operations that return a Promise (flush, shutdown).
+ * Create a LangfuseClient that talks to the ingestion API directly.
+ *
+ * Events are buffered and sent in batches of INGESTION_BATCH_SIZE, on every
+ * flush and on a background schedule (config.flushInterval). A full batch is
+ * sent in the background so callers never wait for retries; flush waits for
+ * those sends. Events that fail with a retryable status are retried on their
+ * own; the rest of the batch is not sent again. Flush errors reach its caller.
+ *
+ * Every event goes through the Outbox: buffered events are recorded in one
+ * write before each send (and when the scope closes), and acknowledged once
+ * Langfuse accepted (or rejected) them. Events a previous run never delivered
+ * are replayed first. A request Langfuse refuses outright (e.g. 401) drops
+ * its events, since replaying them would fail the same way.
+ *
+ * A circuit breaker guards the connection: after CIRCUIT_FAILURE_THRESHOLD
+ * consecutive failed requests it opens and events are only buffered. After
+ * CIRCUIT_RESET_TIMEOUT it is half-open and a health check decides whether to
+ * close it (sending the buffer) or keep it open.
  */
-function withRetryAsync<A>(
-  operation: LangfuseOperation,
-  fn: () => Promise<A>
-): Effect.Effect<A, LangfuseApiError> {
-  return Effect.tryPromise({
-    try: fn,
-    catch: (error) => toLangfuseError(error, operation),
-  }).pipe(
-    Effect.retry(retrySchedule),
-    Effect.catchAll((error) =>
+export const makeLangfuseClient = (
+  config: LangfuseExporterConfig
+): Effect.Effect<LangfuseClient, never, Scope.Scope | Outbox> =>
+  Effect.gen(function* () {
+    const outbox = yield* Outbox;
+    const url = getIngestionUrl(config.host);
+    const healthUrl = getHealthUrl(config.host);
+    const authorization = getAuthorizationHeader(config.publicKey, config.secretKey);
+    const scope = yield* Effect.scope;
+    // Full batches being sent in the background
+    const sending = yield* FiberSet.make<void>();
+    let pending: IngestionEvent[] = [...(yield* outbox.replay)];
+    // Buffered events not written to the outbox yet
+    let unrecorded: IngestionEvent[] = [];
+    // First startTime of recent observations, so updates don't move it
+    const startTimes = new Map<string, Date>();
+    const circuit: { state: CircuitState; failures: number } = { state: 'closed', failures: 0 };
+
+    /**
+     * Put unsent events back in front of the buffer, dropping the oldest beyond
+     * CIRCUIT_BUFFER_MAX_EVENTS (they stay in the outbox).
+     */
+    const requeue = (events: IngestionEvent[]) =>
+      Effect.sync(() => {
+        pending = [...events, ...pending].slice(-CIRCUIT_BUFFER_MAX_EVENTS);
+      });
+
+    const recordSuccess = Effect.suspend(() => {
+      circuit.failures = 0;
+      if (circuit.state === 'closed') return Effect.void;
+      circuit.state = 'closed';
+      return Effect.logInfo('Langfuse connection restored, circuit closed', {
+        buffered: pending.length,
+      });
+    });
+
+    /**
+     * Count a failed request. Only retryable failures (network, 429, 5xx) say
+     * anything about availability.
+     */
+    const recordFailure = (error: LangfuseApiError) =>
+      Effect.suspend(() => {
+        if (!error.retryable) return Effect.void;
+        circuit.failures++;
+        // An open circuit already has a probe scheduled
+        if (circuit.state === 'open') return Effect.void;
+        if (circuit.state === 'closed' && circuit.failures < CIRCUIT_FAILURE_THRESHOLD) {
+          return Effect.void;
+        }
+        return openCircuit(error.message);
+      });
+
+    const openCircuit = (reason: string) =>
+      Effect.suspend(() => {
+        const wasClosed = circuit.state === 'closed';
+        circuit.state = 'open';
+        const log = wasClosed
+          ? Effect.logWarning('Langfuse unreachable, circuit opened - buffering events', {
+              failures: circuit.failures,
+              error: reason,
+            })
+          : Effect.logDebug('Langfuse health check failed, circuit stays open', { error: reason });
+        return log.pipe(Effect.zipRight(Effect.forkIn(probeAfterReset, scope)), Effect.asVoid);
+      });
+
+    /**
+     * Half-open state: check Langfuse health, then close or re-open the circuit.
+     */
+    const probeAfterReset: Effect.Effect<void> = Effect.gen(function* () {
+      yield* Effect.sleep(CIRCUIT_RESET_TIMEOUT);
+      // A request that got through in the meantime may have closed it already
+      if (circuit.state !== 'open') return;
+      circuit.state = 'half-open';
+
+      const healthy = yield* Effect.tryPromise((signal) =>
+        globalThis.fetch(healthUrl, { headers: { Authorization: authorization }, signal })
+      ).pipe(
+        Effect.timeout(INGESTION_REQUEST_TIMEOUT),
+        Effect.map((response) => response.ok),
+        Effect.orElseSucceed(() => false)
+      );
+
+      if (!healthy) return yield* openCircuit('Health check failed');
+      yield* recordSuccess;
+      yield* Effect.ignore(sendPending('flush'));
+    });
+
+    /**
+     * POST one batch and return the events Langfuse rejected.
+     * Fails when the request as a whole failed.
+     */
+    const postBatch = (operation: LangfuseOperation, events: IngestionEvent[]) =>
       Effect.gen(function* () {
-        yield* Effect.logError(`Langfuse ${operation} failed after retries`, {
-          error: error.message,
-          operation,
+        const response = yield* Effect.tryPromise({
+          try: (signal) =>
+            globalThis.fetch(url, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json', Authorization: authorization },
+              body: encodeIngestionBatch(events),
+              signal,
+            }),
+          catch: (error) => toLangfuseError(error, operation),
+        }).pipe(
+          Effect.timeoutFail({
+            duration: INGESTION_REQUEST_TIMEOUT,
+            onTimeout: () => toLangfuseError('Langfuse ingestion request timed out', operation),
+          })
+        );
+
+        if (!response.ok) {
+          return yield* Effect.fail(
+            toLangfuseError(
+              `Langfuse ingestion responded ${response.status}`,
+              operation,
+              isRetryableStatus(response.status)
+            )
+          );
+        }
+
+        const body = yield* Effect.promise(() => response.json().catch(() => undefined));
+        return parseIngestionResponse(events, body);
+      }).pipe(
+        Effect.tap(() => recordSuccess),
+        Effect.tapError(recordFailure)
+      );
+
+    /**
+     * Send a batch, retrying only the events that failed with a retryable status.
+     * Fails if events are still failing after retries or were rejected outright.
+     */
+    const sendBatch = (operation: LangfuseOperation, events: IngestionEvent[]) =>
+      Effect.suspend(() => {
+        let remaining = events;
+        const rejected: IngestionFailure[] = [];
+
+        const attempt = Effect.suspend(() => postBatch(operation, remaining)).pipe(
+          Effect.flatMap((failures) => {
+            const retry = failures.filter((f) => isRetryableStatus(f.status)).map((f) => f.event);
+            const done = remaining.filter((event) => !retry.includes(event));
+            rejected.push(...failures.filter((f) => !isRetryableStatus(f.status)));
+            remaining = retry;
+
+            return outbox
+              .acknowledge(done.map((event) => event.id))
+              .pipe(
+                Effect.zipRight(
+                  remaining.length === 0
+                    ? Effect.void
+                    : Effect.fail(
+                        toLangfuseError(
+                          `${remaining.length} of ${events.length} Langfuse events failed`,
+                          operation
+                        )
+                      )
+                )
+              );
+          })
+        );
+
+        return attempt.pipe(
+          // Stop retrying once the circuit opens; the remaining events wait in the buffer
+          Effect.retry({
+            schedule: retrySchedule,
+            while: (error) => error.retryable && circuit.state === 'closed',
+          }),
+          Effect.catchIf(
+            (error) => error.retryable && circuit.state !== 'closed',
+            () => requeue(remaining)
+          ),
+          // A refused request would be refused again on replay, so drop its events
+          Effect.tapError((error) => {
+            if (error.retryable) return Effect.void;
+            const dropped = remaining;
+            remaining = [];
+            return outbox.acknowledge(dropped.map((event) => event.id)).pipe(
+              Effect.zipRight(
+                Effect.logWarning('Langfuse refused the batch, dropping its events', {
+                  error: error.message,
+                  operation,
+                  dropped: dropped.length,
+                })
+              )
+            );
+          }),
+          Effect.flatMap(() => {
+            if (rejected.length === 0) return Effect.void;
+            return Effect.fail(
+              new LangfuseApiError({
+                message: `Langfuse rejected ${rejected.length} event(s): ${rejected[0].message}`,
+                operation,
+                cause: rejected,
+                retryable: false,
+              })
+            );
+          }),
+          Effect.tapError((error) =>
+            Effect.logError(`Langfuse ${operation} failed after retries`, {
+              error: error.message,
+              operation,
+              // Unsent events stay in the outbox for the next run
+              unsent: remaining.length,
+              rejected: rejected.length,
+            })
+          ),
+          Effect.tap(() => Effect.logDebug('Langfuse batch sent', { count: events.length }))
+        );
+      });
+
+    /**
+     * Write the events buffered since the last write to the outbox.
+     */
+    const recordPending = Effect.suspend(() => {
+      if (unrecorded.length === 0) return Effect.void;
+      const events = unrecorded;
+      unrecorded = [];
+      return outbox.append(events);
+    });
+
+    /**
+     * Send everything buffered, in batches of at most INGESTION_BATCH_SIZE.
+     * Every batch is attempted; the first failure is reported.
+     */
+    const sendPending = (operation: LangfuseOperation): Effect.Effect<void, LangfuseApiError> =>
+      Effect.suspend(() => {
+        if (circuit.state !== 'closed') return recordPending;
+
+        const batches: IngestionEvent[][] = [];
+        for (let i = 0; i < pending.length; i += INGESTION_BATCH_SIZE) {
+          batches.push(pending.slice(i, i + INGESTION_BATCH_SIZE));
+        }
+        pending = [];
+
+        return recordPending.pipe(
+          Effect.zipRight(
+            Effect.forEach(batches, (batch) => Effect.either(sendBatch(operation, batch)))
+          ),
+          Effect.flatMap((results) => {
+            const failure = results.find(Either.isLeft);
+            return failure ? Effect.fail(failure.left) : Effect.void;
+          })
+        );
+      });
+
+    /**
+     * Send everything buffered once in-flight background sends are done.
+     */
+    const flushPending = (operation: LangfuseOperation) =>
+      FiberSet.awaitEmpty(sending).pipe(Effect.zipRight(sendPending(operation)));
+
+    /**
+     * Buffer an event, sending the batch in the background once it is full.
+     * Failures are logged by sendBatch.
+     */
+    const enqueue = (
+      operation: LangfuseOperation,
+      type: IngestionEventType,
+      body: Record<string, unknown>
+    ) =>
+      Effect.gen(function* () {
+        const event = createIngestionEvent(type, body);
+        yield* Effect.sync(() => {
+          pending.push(event);
+          unrecorded.push(event);
+          if (pending.length > CIRCUIT_BUFFER_MAX_EVENTS) pending.shift();
         });
-        return yield* Effect.fail(error);
-      })
-    )
-  );
-}
+        // Also records the batch while the circuit is open
+        if (unrecorded.length >= INGESTION_BATCH_SIZE) {
+          yield* FiberSet.run(sending, Effect.ignore(sendPending(operation)));
+        }
+      });
+
+    /**
+     * The startTime to send for an observation: its own, or the one the
+     * observation was first sent with (Langfuse would reset it otherwise).
+     */
+    const startTimeOf = (id: string | undefined, startTime: Date | undefined) => {
+      if (!id) return startTime;
+      const first = startTime ?? startTimes.get(id) ?? new Date();
+      rememberStartTime(startTimes, id, first);
+      return first;
+    };
+
+    // Events still buffered when the scope closes are kept for the next run
+    yield* Effect.addFinalizer(() => recordPending);
+
+    // Periodically send buffered events, like the Langfuse SDK's flush interval
+    yield* sendPending('flush').pipe(
+      Effect.ignore,
+      Effect.repeat(Schedule.spaced(Duration.millis(config.flushInterval))),
+      Effect.delay(Duration.millis(config.flushInterval)),
+      Effect.forkScoped
+    );
+
+    yield* Effect.logInfo('Langfuse client initialized', { host: config.host });
+
+    return LangfuseClient.of({
+      createTrace: (data) =>
+        enqueue('createTrace', 'trace-create', {
+          id: data.id,
+          sessionId: data.sessionId,
+          name: data.name,
+          metadata: data.metadata,
+          input: data.input,
+          output: data.output,
+          userId: data.userId,
+          tags: data.tags,
+        }).pipe(Effect.tap(() => Effect.logDebug('Trace created', { name: data.name }))),
+
+      createGeneration: (data) =>
+        enqueue('createGeneration', 'generation-create', {
+          id: data.id,
+          traceId: data.traceId,
+          parentObservationId: data.parentObservationId,
+          name: data.name,
+          model: data.model,
+          modelParameters: data.modelParameters,
+          input: data.input,
+          output: data.output,
+          usage: data.usage,
+          usageDetails: data.usageDetails,
+          costDetails: data.costDetails,
+          metadata: data.metadata,
+          startTime: startTimeOf(data.id, data.startTime),
+          endTime: data.endTime,
+        }).pipe(Effect.tap(() => Effect.logDebug('Generation created', { name: data.name }))),
+
+      createSpan: (data) =>
+        enqueue('createSpan', 'span-create', {
+          id: data.id,
+          traceId: data.traceId,
+          parentObservationId: data.parentObservationId,
+          name: data.name,
+          input: data.input,
+          output: data.output,
+          metadata: data.metadata,
+          startTime: startTimeOf(data.id, data.startTime),
+          endTime: data.endTime,
+          level: data.level,
+          statusMessage: data.statusMessage,
+        }).pipe(Effect.tap(() => Effect.logDebug('Span created', { name: data.name }))),
+
+      flush: flushPending('flush').pipe(Effect.tap(() => Effect.logDebug('Flush completed'))),
+
+      shutdown: flushPending('shutdown').pipe(
+        Effect.tap(() => Effect.logInfo('Langfuse client shutdown complete'))
+      ),
+
+      isConnected: Effect.sync(() => circuit.state === 'closed'),
+
+      config,
+    });
+  });
 
 /**
  * Live implementation of LangfuseClient.
  */
-export const LangfuseClientLive = Layer.effect(
+export const LangfuseClientLive = Layer.scoped(
   LangfuseClient,
   Effect.gen(function* () {
     // Load config
@@ -218,79 +539,7 @@ export const LangfuseClientLive = Layer.effect(
       });
     }
 
-    // Initialize Langfuse SDK
-    const client = new Langfuse({
-      publicKey: config.publicKey,
-      secretKey: config.secretKey,
-      baseUrl: config.host,
-      flushAt: 15,
-      flushInterval: config.flushInterval,
-    });
-
-    yield* Effect.logInfo('Langfuse client initialized', { host: config.host });
-
-    return LangfuseClient.of({
-      createTrace: (data) =>
-        withRetrySync('createTrace', () => {
-          client.trace({
-            id: data.id,
-            sessionId: data.sessionId,
-            name: data.name,
-            metadata: data.metadata,
-            input: data.input,
-            output: data.output,
-            userId: data.userId,
-            tags: data.tags,
-          });
-        }).pipe(Effect.tap(() => Effect.logDebug('Trace created', { name: data.name }))),
-
-      createGeneration: (data) =>
-        withRetrySync('createGeneration', () => {
-          client.generation({
-            id: data.id,
-            traceId: data.traceId,
-            parentObservationId: data.parentObservationId,
-            name: data.name,
-            model: data.model,
-            modelParameters: data.modelParameters,
-            input: data.input,
-            output: data.output,
-            usage: data.usage,
-            usageDetails: data.usageDetails,
-            costDetails: data.costDetails,
-            metadata: data.metadata,
-            startTime: data.startTime,
-            endTime: data.endTime,
-          });
-        }).pipe(Effect.tap(() => Effect.logDebug('Generation created', { name: data.name }))),
-
-      createSpan: (data) =>
-        withRetrySync('createSpan', () => {
-          client.span({
-            id: data.id,
-            traceId: data.traceId,
-            parentObservationId: data.parentObservationId,
-            name: data.name,
-            input: data.input,
-            output: data.output,
-            metadata: data.metadata,
-            startTime: data.startTime,
-            endTime: data.endTime,
-          });
-        }).pipe(Effect.tap(() => Effect.logDebug('Span created', { name: data.name }))),
-
-      flush: withRetryAsync('flush', () => client.flushAsync()).pipe(
-        Effect.tap(() => Effect.logDebug('Flush completed'))
-      ),
-
-      shutdown: withRetryAsync('shutdown', () => client.shutdownAsync()).pipe(
-        Effect.tap(() => Effect.logInfo('Langfuse client shutdown complete'))
-      ),
-
-      isConnected: Effect.succeed(true),
-
-      config,
-    });
+    return yield* makeLangfuseClient(config);
   })
 );
 
@@ -313,3 +562,41 @@ export const LangfuseClientTest = (config: LangfuseExporterConfig) =>
       config,
     })
   );
+
+/**
+ * Adapt a LangfuseClient to the TraceExporter interface.
+ * The client already retries internally, so its errors are not retried again.
+ */
+export const makeLangfuseExporter = (client: LangfuseClient): TraceExporter => {
+  const toExporterError =
+    (operation: ExporterOperation) =>
+    (error: LangfuseApiError): ExporterError =>
+      new ExporterError({
+        message: error.message,
+        exporter: 'langfuse',
+        operation,
+        cause: error,
+        retryable: false,
+      });
+
+  return TraceExporter.of({
+    name: 'langfuse',
+    upsertTrace: (data) =>
+      client.createTrace(data).pipe(Effect.mapError(toExporterError('upsertTrace'))),
+    upsertGeneration: (data) =>
+      client.createGeneration(data).pipe(Effect.mapError(toExporterError('upsertGeneration'))),
+    upsertSpan: (data) =>
+      client.createSpan(data).pipe(Effect.mapError(toExporterError('upsertSpan'))),
+    flush: client.flush.pipe(Effect.mapError(toExporterError('flush'))),
+    shutdown: client.shutdown.pipe(Effect.mapError(toExporterError('shutdown'))),
+    config: client.config,
+  });
+};
+
+/**
+ * TraceExporter backed only by the LangfuseClient service.
+ */
+export const LangfuseTraceExporter = Layer.effect(
+  TraceExporter,
+  Effect.map(LangfuseClient, makeLangfuseExporter)
+);
@@ -0,0 +1,155 @@
+/**
+ * LocalExporter - TraceExporter adapter writing to the local trace store.
+ *
+ * Lets the plugin keep telemetry on disk without a Langfuse server (e.g. on
+ * air-gapped machines). Records are buffered and appended to daily JSONL files
+ * in `<spoolDir>/local` on every flush, along with the session/model/date index.
+ */
+
+import { Duration, Effect, Schedule, type Scope } from 'effect';
+
+import type { LangfuseExporterConfig } from '../../lib/config.js';
+import {
+  appendLocalRecords,
+  cleanupLocalStore,
+  getLocalStoreDir,
+  indexRecord,
+  readLocalIndex,
+  writeLocalIndex,
+  type LocalRecord,
+} from '../../lib/local-store.js';
+import { LOCAL_MAX_TRACKED_GENERATIONS } from '../constants.js';
+import { ExporterError, type ExporterOperation } from '../errors.js';
+import { TraceExporter } from './TraceExporter.js';
+
+/**
+ * Remember a generation's model as the most recently used entry, forgetting
+ * the least recently used past LOCAL_MAX_TRACKED_GENERATIONS.
+ */
+function rememberModel(models: Map<string, string>, id: string, model: string): void {
+  models.delete(id);
+  models.set(id, model);
+  if (models.size > LOCAL_MAX_TRACKED_GENERATIONS) {
+    models.delete(models.keys().next().value as string);
+  }
+}
+
+/**
+ * Create a local store exporter.
+ *
+ * Applies retention on startup, then writes buffered records every
+ * config.flushInterval and on flush/shutdown.
+ */
+export const makeLocalExporter = (
+  config: LangfuseExporterConfig
+): Effect.Effect<TraceExporter, never, Scope.Scope> =>
+  Effect.gen(function* () {
+    const dir = getLocalStoreDir(config);
+
+    yield* Effect.promise(() => cleanupLocalStore(config));
+    const index = yield* Effect.promise(() => readLocalIndex(dir));
+
+    // Records waiting to be written, the session each trace belongs to,
+    // and the model of recent generations (later upserts often omit it)
+    let pending: Array<{ record: LocalRecord; name?: string }> = [];
+    const sessionsByTrace = new Map<string, string>();
+    const modelsByGeneration = new Map<string, string>();
+    for (const [sessionId, session] of Object.entries(index.sessions)) {
+      sessionsByTrace.set(session.traceId, sessionId);
+    }
+
+    const record = (entry: Omit<LocalRecord, 'timestamp' | 'sessionId'>, name?: string) =>
+      Effect.sync(() => {
+        pending.push({
+          record: {
+            ...entry,
+            timestamp: Date.now(),
+            sessionId: sessionsByTrace.get(entry.traceId),
+          },
+          name,
+        });
+      });
+
+    /**
+     * Write buffered records and the updated index.
+     * Records stay buffered if the write fails, so the next flush retries them.
+     */
+    const writePending = (operation: ExporterOperation) =>
+      Effect.gen(function* () {
+        if (pending.length === 0) return;
+        const batch = pending;
+        pending = [];
+
+        yield* Effect.tryPromise({
+          try: async () => {
+            const records = batch.map((entry) => entry.record);
+            await appendLocalRecords(dir, records);
+            for (const entry of batch) indexRecord(index, entry.record, entry.name);
+            await writeLocalIndex(dir, index);
+          },
+          catch: (error) =>
+            new ExporterError({
+              message: error instanceof Error ? error.message : String(error),
+              exporter: 'local',
+              operation,
+              cause: error,
+              retryable: true,
+            }),
+        }).pipe(
+          Effect.tapError(() =>
+            Effect.sync(() => {
+              pending = [...batch, ...pending];
+            })
+          )
+        );
+
+        yield* Effect.logDebug('Local store records written', { count: batch.length, dir });
+      });
+
+    yield* writePending('flush').pipe(
+      Effect.catchAll((error) =>
+        Effect.logWarning('Local store write failed', { error: error.message })
+      ),
+      Effect.repeat(Schedule.spaced(Duration.millis(config.flushInterval))),
+      Effect.delay(Duration.millis(config.flushInterval)),
+      Effect.forkScoped
+    );
+
+    yield* Effect.logInfo('Local trace store initialized', { dir });
+
+    return TraceExporter.of({
+      name: 'local',
+
+      upsertTrace: (data) =>
+        Effect.gen(function* () {
+          sessionsByTrace.set(data.id, data.sessionId);
+          yield* record(
+            { kind: 'trace', id: data.id, traceId: data.id, data: { ...data } },
+            data.name
+          );
+        }),
+
+      upsertGeneration: (data) =>
+        Effect.gen(function* () {
+          const id = data.id ?? '';
+          const model = data.model ?? modelsByGeneration.get(id);
+          if (model) rememberModel(modelsByGeneration, id, model);
+          yield* record({
+            kind: 'generation',
+            id,
+            traceId: data.traceId,
+            model,
+            data: { ...data },
+          });
+        }),
+
+      upsertSpan: (data) =>
+        record({ kind: 'span', id: data.id ?? '', traceId: data.traceId, data: { ...data } }),
+
+      flush: writePending('flush'),
+
+      shutdown: writePending('shutdown'),
+
+      config,
+    });
+  });
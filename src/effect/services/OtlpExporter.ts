@@ -0,0 +1,481 @@
+/**
+ * OtlpExporter - TraceExporter adapter for OpenTelemetry collectors (OTLP/HTTP).
+ *
+ * Maps the trace model to OTLP spans following the GenAI semantic conventions:
+ * - Each session trace becomes a root span
+ * - Generations become `chat <model>` spans with `gen_ai.*` attributes
+ * - Tool spans become `execute_tool <name>` spans with `gen_ai.tool.*` attributes
+ *
+ * OTLP spans are immutable once sent, while the TraceExporter interface upserts.
+ * Upserts are therefore merged in memory and a span is only sent once it has
+ * ended (or has gone stale). Roots and unfinished spans are sent on shutdown.
+ * An update to a span that was already sent re-sends the merged span under the
+ * same span id, which collectors keyed by span id (like Langfuse) apply as an update.
+ */
+
+import { Duration, Effect, Schedule, type Scope } from 'effect';
+
+import type { LangfuseExporterConfig } from '../../lib/config.js';
+import {
+  SpanKind,
+  StatusCode,
+  encodeTraceRequestJson,
+  encodeTraceRequestProtobuf,
+  type OtlpAttributes,
+  type OtlpSpan,
+} from '../../lib/otlp.js';
+import {
+  OTLP_REQUEST_TIMEOUT,
+  OTLP_SENT_MAX_SPANS,
+  OTLP_SETTLE_AFTER,
+  OTLP_STALE_AFTER,
+} from '../constants.js';
+import { ExporterError, type ExporterOperation } from '../errors.js';
+import {
+  TraceExporter,
+  type GenerationData,
+  type SpanData,
+  type TraceData,
+} from './TraceExporter.js';
+
+/**
+ * Instrumentation scope reported with every span.
+ */
+const SCOPE = { name: 'opencode-langfuse-exporter' };
+
+/**
+ * Model parameters (as produced by the EventProcessor) mapped to gen_ai.request.* attributes.
+ */
+const MODEL_PARAMETER_ATTRIBUTES: Record<string, string> = {
+  temperature: 'gen_ai.request.temperature',
+  top_p: 'gen_ai.request.top_p',
+  top_k: 'gen_ai.request.top_k',
+  max_tokens: 'gen_ai.request.max_tokens',
+  frequency_penalty: 'gen_ai.request.frequency_penalty',
+  presence_penalty: 'gen_ai.request.presence_penalty',
+};
+
+/**
+ * Token usage keys mapped to gen_ai.usage.* attributes.
+ */
+const USAGE_ATTRIBUTES: Record<string, string> = {
+  input: 'gen_ai.usage.input_tokens',
+  output: 'gen_ai.usage.output_tokens',
+  total: 'gen_ai.usage.total_tokens',
+  reasoning: 'gen_ai.usage.reasoning_tokens',
+  cache_read: 'gen_ai.usage.cache_read_input_tokens',
+  cache_write: 'gen_ai.usage.cache_creation_input_tokens',
+};
+
+/**
+ * A trace or observation waiting to be sent, with all upserts merged.
+ */
+interface PendingEntry<T> {
+  data: T;
+  firstSeen: number;
+  lastUpdate: number;
+}
+
+type PendingObservation =
+  | ({ kind: 'generation' } & PendingEntry<GenerationData>)
+  | ({ kind: 'span' } & PendingEntry<SpanData>);
+
+/**
+ * Strip UUID dashes to get an OTLP trace id (32 hex chars).
+ */
+export function toOtlpTraceId(id: string): string {
+  return id.replace(/-/g, '').toLowerCase().padEnd(32, '0').slice(0, 32);
+}
+
+/**
+ * Derive an OTLP span id (16 hex chars) from an observation UUID.
+ */
+export function toOtlpSpanId(id: string): string {
+  return id.replace(/-/g, '').toLowerCase().padEnd(16, '0').slice(0, 16);
+}
+
+/**
+ * Span id of the root span for a trace (the session).
+ * Uses the second half of the trace id so it can't collide with observation ids.
+ */
+function rootSpanId(traceId: string): string {
+  return toOtlpTraceId(traceId).slice(16);
+}
+
+/**
+ * Serialize structured input/output as an attribute string.
+ */
+function stringify(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Flatten observation metadata under an `opencode.` prefix.
+ */
+function metadataAttributes(
+  metadata: Record<string, string | number | boolean | string[] | null> | undefined
+): OtlpAttributes {
+  const attributes: OtlpAttributes = {};
+  for (const [key, value] of Object.entries(metadata ?? {})) {
+    if (value !== null) attributes[`opencode.${key}`] = value;
+  }
+  return attributes;
+}
+
+/**
+ * Merge an upsert into the pending data. Undefined fields keep their previous
+ * value and metadata is merged key by key, matching upsert semantics.
+ */
+function mergeData<T extends { metadata?: Record<string, unknown> }>(existing: T, update: T): T {
+  const merged = { ...existing } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(update)) {
+    if (value !== undefined) merged[key] = value;
+  }
+  if (existing.metadata && update.metadata) {
+    merged.metadata = { ...existing.metadata, ...update.metadata };
+  }
+  return merged as T;
+}
+
+/**
+ * Merge an observation upsert into the pending observation with the same id.
+ * Undefined when the kinds differ, in which case the upsert replaces it.
+ */
+function mergeObservation(
+  existing: PendingObservation,
+  update: PendingObservation
+): PendingObservation | undefined {
+  if (existing.kind === 'generation' && update.kind === 'generation') {
+    return {
+      ...existing,
+      data: mergeData(existing.data, update.data),
+      lastUpdate: update.lastUpdate,
+    };
+  }
+  if (existing.kind === 'span' && update.kind === 'span') {
+    return {
+      ...existing,
+      data: mergeData(existing.data, update.data),
+      lastUpdate: update.lastUpdate,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Remember a sent span id, forgetting the oldest once the set is full.
+ */
+function rememberSent(sent: Set<string>, id: string): void {
+  sent.delete(id);
+  sent.add(id);
+  if (sent.size > OTLP_SENT_MAX_SPANS) {
+    sent.delete(sent.values().next().value as string);
+  }
+}
+
+/**
+ * Convert a session trace to its root span.
+ */
+function traceToSpan(entry: PendingEntry<TraceData>, endTimeMs: number): OtlpSpan {
+  const { data } = entry;
+  return {
+    traceId: toOtlpTraceId(data.id),
+    spanId: rootSpanId(data.id),
+    name: data.name,
+    kind: SpanKind.SERVER,
+    startTimeMs: entry.firstSeen,
+    endTimeMs,
+    attributes: {
+      'session.id': data.sessionId,
+      'gen_ai.conversation.id': data.sessionId,
+      'user.id': data.userId,
+      'opencode.tags': data.tags,
+      'gen_ai.input.messages': stringify(data.input),
+      'gen_ai.output.messages': stringify(data.output),
+      ...metadataAttributes(data.metadata),
+    },
+  };
+}
+
+/**
+ * Convert a generation or span to an OTLP span.
+ */
+function observationToSpan(observation: PendingObservation, nowMs: number): OtlpSpan {
+  const { data } = observation;
+  const startTimeMs = data.startTime?.getTime() ?? observation.firstSeen;
+  const endTimeMs = data.endTime?.getTime() ?? Math.max(startTimeMs, observation.lastUpdate, nowMs);
+
+  const base = {
+    traceId: toOtlpTraceId(data.traceId),
+    spanId: toOtlpSpanId(data.id ?? ''),
+    parentSpanId: data.parentObservationId
+      ? toOtlpSpanId(data.parentObservationId)
+      : rootSpanId(data.traceId),
+    startTimeMs,
+    endTimeMs,
+  };
+
+  if (observation.kind === 'generation') {
+    const generation = observation.data;
+    const [provider, ...modelParts] = (generation.model ?? '').split('/');
+    const model = modelParts.length > 0 ? modelParts.join('/') : provider;
+
+    const attributes: OtlpAttributes = {
+      'gen_ai.operation.name': 'chat',
+      'gen_ai.provider.name': modelParts.length > 0 ? provider : undefined,
+      'gen_ai.request.model': model || undefined,
+      'gen_ai.response.model': model || undefined,
+      'gen_ai.input.messages': stringify(generation.input),
+      'gen_ai.output.messages': stringify(generation.output),
+      'opencode.observation.name': generation.name,
+      ...metadataAttributes(generation.metadata),
+    };
+    for (const [key, value] of Object.entries(generation.modelParameters ?? {})) {
+      if (value === null) continue;
+      if (key === 'stop' && typeof value === 'string') {
+        attributes['gen_ai.request.stop_sequences'] = value.split(',');
+      } else {
+        attributes[MODEL_PARAMETER_ATTRIBUTES[key] ?? `gen_ai.request.${key}`] = value;
+      }
+    }
+    const usage = generation.usageDetails ?? {
+      input: generation.usage?.input,
+      output: generation.usage?.output,
+      total: generation.usage?.total,
+    };
+    for (const [key, value] of Object.entries(usage)) {
+      if (value !== undefined) attributes[USAGE_ATTRIBUTES[key] ?? `gen_ai.usage.${key}`] = value;
+    }
+    if (generation.costDetails?.total !== undefined) {
+      attributes['gen_ai.usage.cost'] = generation.costDetails.total;
+    }
+
+    return {
+      ...base,
+      name: model ? `chat ${model}` : generation.name,
+      kind: SpanKind.CLIENT,
+      attributes,
+    };
+  }
+
+  const span = observation.data;
+  const toolName = typeof span.metadata?.tool === 'string' ? span.metadata.tool : undefined;
+  const attributes: OtlpAttributes = toolName
+    ? {
+        'gen_ai.operation.name': 'execute_tool',
+        'gen_ai.tool.name': toolName,
+        'gen_ai.tool.call.id':
+          typeof span.metadata?.call_id === 'string' ? span.metadata.call_id : undefined,
+        'gen_ai.tool.call.arguments': stringify(span.input),
+        'gen_ai.tool.call.result': stringify(span.output),
+      }
+    : {
+        'opencode.input': stringify(span.input),
+        'opencode.output': stringify(span.output),
+      };
+  attributes['opencode.observation.name'] = span.name;
+  attributes['opencode.level'] = span.level;
+  Object.assign(attributes, metadataAttributes(span.metadata));
+
+  return {
+    ...base,
+    name: toolName ? `execute_tool ${toolName}` : span.name,
+    kind: SpanKind.INTERNAL,
+    attributes,
+    status:
+      span.level === 'ERROR' ? { code: StatusCode.ERROR, message: span.statusMessage } : undefined,
+  };
+}
+
+/**
+ * Create an OTLP/HTTP exporter.
+ *
+ * Ended spans are sent on every flush, and on a background schedule
+ * (config.flushInterval) once they stopped changing; shutdown sends
+ * everything still pending.
+ *
+ * Each span is exported once: backends store a re-sent span as a duplicate,
+ * so updates arriving after a span was sent are dropped and counted.
+ */
+export const makeOtlpExporter = (
+  config: LangfuseExporterConfig
+): Effect.Effect<TraceExporter, never, Scope.Scope> =>
+  Effect.gen(function* () {
+    const traces = new Map<string, PendingEntry<TraceData>>();
+    const observations = new Map<string, PendingObservation>();
+    // Ids of recently sent spans, and updates to them dropped so far
+    const sent = new Set<string>();
+    let droppedTotal = 0;
+    let reportedTotal = 0;
+
+    /**
+     * Drop an update to a span that was already sent.
+     */
+    const dropIfSent = (id: string) => {
+      if (!sent.has(id)) return false;
+      droppedTotal++;
+      return true;
+    };
+
+    const resource: OtlpAttributes = {
+      'service.name': 'opencode',
+      'telemetry.sdk.name': SCOPE.name,
+    };
+
+    const toError =
+      (operation: ExporterOperation, retryable: boolean) =>
+      (error: unknown): ExporterError =>
+        new ExporterError({
+          message: error instanceof Error ? error.message : String(error),
+          exporter: 'otlp',
+          operation,
+          cause: error,
+          retryable,
+        });
+
+    /**
+     * POST spans to the collector. 429 and 5xx responses are retryable.
+     */
+    const post = (operation: ExporterOperation, spans: OtlpSpan[]) =>
+      Effect.gen(function* () {
+        const isJson = config.otlpProtocol !== 'http/protobuf';
+        const body = isJson
+          ? encodeTraceRequestJson(resource, SCOPE, spans)
+          : encodeTraceRequestProtobuf(resource, SCOPE, spans);
+
+        const response = yield* Effect.tryPromise({
+          try: (signal) =>
+            globalThis.fetch(config.otlpEndpoint, {
+              method: 'POST',
+              headers: {
+                'Content-Type': isJson ? 'application/json' : 'application/x-protobuf',
+                ...config.otlpHeaders,
+              },
+              body,
+              signal,
+            }),
+          catch: toError(operation, true),
+        }).pipe(
+          Effect.timeoutFail({
+            duration: OTLP_REQUEST_TIMEOUT,
+            onTimeout: () => toError(operation, true)('OTLP request timed out'),
+          })
+        );
+
+        if (!response.ok) {
+          const retryable = response.status === 429 || response.status >= 500;
+          return yield* Effect.fail(
+            toError(operation, retryable)(`OTLP collector responded ${response.status}`)
+          );
+        }
+      });
+
+    /**
+     * Send pending spans. Without `all`, only ended spans with no updates for
+     * `settle`, or stale spans, are sent.
+     * Spans are removed from the buffer only once the collector accepted them.
+     */
+    const exportPending = (
+      operation: ExporterOperation,
+      all: boolean,
+      settle: Duration.Duration = Duration.zero
+    ) =>
+      Effect.gen(function* () {
+        if (droppedTotal > reportedTotal) {
+          yield* Effect.logWarning('OTLP span updates after export dropped', {
+            dropped: droppedTotal - reportedTotal,
+            total: droppedTotal,
+          });
+          reportedTotal = droppedTotal;
+        }
+
+        const now = Date.now();
+        const staleBefore = now - Duration.toMillis(OTLP_STALE_AFTER);
+        const settledBefore = now - Duration.toMillis(settle);
+
+        const readyObservations = Array.from(observations.entries()).filter(
+          ([, o]) =>
+            all ||
+            (o.data.endTime !== undefined && o.lastUpdate <= settledBefore) ||
+            o.lastUpdate < staleBefore
+        );
+        const readyTraces = Array.from(traces.entries()).filter(
+          ([, t]) => all || t.lastUpdate < staleBefore
+        );
+        if (readyObservations.length === 0 && readyTraces.length === 0) return;
+
+        const spans = [
+          ...readyTraces.map(([, t]) => traceToSpan(t, Math.max(t.lastUpdate, now))),
+          ...readyObservations.map(([, o]) => observationToSpan(o, now)),
+        ];
+        yield* post(operation, spans);
+
+        for (const [id] of readyTraces) {
+          traces.delete(id);
+          rememberSent(sent, id);
+        }
+        for (const [id] of readyObservations) {
+          observations.delete(id);
+          rememberSent(sent, id);
+        }
+        yield* Effect.logDebug('OTLP spans exported', { count: spans.length });
+      });
+
+    const upsertObservation = (observation: PendingObservation) =>
+      Effect.sync(() => {
+        const id = observation.data.id;
+        if (!id || dropIfSent(id)) return;
+
+        const existing = observations.get(id);
+        observations.set(id, (existing && mergeObservation(existing, observation)) ?? observation);
+      });
+
+    // Periodically send ended spans, like the Langfuse SDK's flush interval
+    yield* exportPending('flush', false, OTLP_SETTLE_AFTER).pipe(
+      Effect.catchAll((error) =>
+        Effect.logWarning('OTLP background export failed', { error: error.message })
+      ),
+      Effect.repeat(Schedule.spaced(Duration.millis(config.flushInterval))),
+      Effect.delay(Duration.millis(config.flushInterval)),
+      Effect.forkScoped
+    );
+
+    yield* Effect.logInfo('OTLP exporter initialized', {
+      endpoint: config.otlpEndpoint,
+      protocol: config.otlpProtocol,
+    });
+
+    return TraceExporter.of({
+      name: 'otlp',
+
+      upsertTrace: (data) =>
+        Effect.sync(() => {
+          if (dropIfSent(data.id)) return;
+          const now = Date.now();
+          const existing = traces.get(data.id);
+          traces.set(
+            data.id,
+            existing
+              ? { ...existing, data: mergeData(existing.data, data), lastUpdate: now }
+              : { data, firstSeen: now, lastUpdate: now }
+          );
+        }),
+
+      upsertGeneration: (data) => {
+        const now = Date.now();
+        return upsertObservation({ kind: 'generation', data, firstSeen: now, lastUpdate: now });
+      },
+
+      upsertSpan: (data) => {
+        const now = Date.now();
+        return upsertObservation({ kind: 'span', data, firstSeen: now, lastUpdate: now });
+      },
+
+      flush: exportPending('flush', false),
+
+      shutdown: exportPending('shutdown', true),
+
+      config,
+    });
+  });
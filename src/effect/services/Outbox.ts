@@ -0,0 +1,294 @@
+/**
+ * Outbox service - durable log of outgoing Langfuse ingestion events.
+ *
+ * Events are written to disk before they are sent and acknowledged once
+ * Langfuse has taken them, so events buffered when the process crashes (or the
+ * machine sleeps) are replayed on the next startup.
+ */
+
+import { Context, Effect, Layer } from 'effect';
+import { appendFile, mkdir, readdir, unlink } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { cleanupJsonlFiles } from '../../lib/audit-log.js';
+import type { LangfuseExporterConfig } from '../../lib/config.js';
+import type { IngestionEvent } from '../../lib/langfuse-ingestion.js';
+import { adoptSpoolFile, isSpoolFileInUse, spoolFileOwner } from '../../lib/spool-files.js';
+import { OUTBOX_FILE_PREFIX, OUTBOX_SEGMENT_MAX_EVENTS } from '../constants.js';
+
+/**
+ * Outbox service interface.
+ */
+export interface Outbox {
+  /**
+   * Record events about to be sent.
+   */
+  readonly append: (events: ReadonlyArray<IngestionEvent>) => Effect.Effect<void>;
+
+  /**
+   * Mark events as done with (delivered or permanently rejected).
+   */
+  readonly acknowledge: (eventIds: ReadonlyArray<string>) => Effect.Effect<void>;
+
+  /**
+   * Events left unacknowledged by previous runs, oldest first.
+   */
+  readonly replay: Effect.Effect<ReadonlyArray<IngestionEvent>>;
+
+  /**
+   * Number of events not yet acknowledged.
+   */
+  readonly size: Effect.Effect<number>;
+}
+
+/**
+ * Outbox service tag for dependency injection.
+ */
+export const Outbox = Context.GenericTag<Outbox>('Outbox');
+
+/**
+ * One line of a segment file.
+ */
+type SegmentLine = { event: IngestionEvent } | { ack: string[] };
+
+/**
+ * Parse a segment into its unacknowledged events, in append order.
+ * Malformed lines (e.g. a torn final write) are skipped.
+ */
+function parseSegment(content: string): Map<string, IngestionEvent> {
+  const events = new Map<string, IngestionEvent>();
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line) as SegmentLine;
+      if ('event' in parsed) events.set(parsed.event.id, parsed.event);
+      else for (const id of parsed.ack) events.delete(id);
+    } catch {
+      // Skip invalid lines
+    }
+  }
+
+  return events;
+}
+
+// Segments of the outboxes open in this process
+const openSegments = new Set<string>();
+let segmentCounter = 0;
+
+/**
+ * Whether the outbox that owns a segment may still be running.
+ */
+function isSegmentInUse(file: string): boolean {
+  const owner = spoolFileOwner(file);
+  const pid = Number(owner.slice(OUTBOX_FILE_PREFIX.length).split('-')[1]);
+  return isSpoolFileInUse(owner, pid, openSegments);
+}
+
+/**
+ * In-memory Outbox for tests. Nothing is replayed.
+ */
+export const OutboxTest = Layer.sync(Outbox, () => {
+  const pending = new Set<string>();
+
+  return Outbox.of({
+    append: (events) =>
+      Effect.sync(() => {
+        for (const event of events) pending.add(event.id);
+      }),
+    acknowledge: (eventIds) =>
+      Effect.sync(() => {
+        for (const id of eventIds) pending.delete(id);
+      }),
+    replay: Effect.succeed([]),
+    size: Effect.sync(() => pending.size),
+  });
+});
+
+/**
+ * Persistent implementation of Outbox.
+ *
+ * Events are appended to JSONL segments under spoolDir, followed by `ack`
+ * lines as they are acknowledged. A segment is deleted once all of its events
+ * are acknowledged. Retention (retentionDays, maxSpoolSizeMB) is applied on
+ * startup and whenever a new segment is started, dropping the oldest segments.
+ *
+ * On startup, segments left by outboxes that are gone (their process exited)
+ * are claimed by renaming them to segments of this outbox, and replayed.
+ * Segments of other running processes sharing the spoolDir are left alone.
+ *
+ * Disk errors are logged and never fail the caller - events are still sent,
+ * they just aren't crash-safe.
+ */
+export const OutboxPersistent = (config: LangfuseExporterConfig) =>
+  Layer.scoped(
+    Outbox,
+    Effect.gen(function* () {
+      const dir = config.spoolDir;
+      // Serializes disk writes so ack lines never interleave with events
+      const lock = yield* Effect.makeSemaphore(1);
+
+      // Unacknowledged event ids per segment, and the segment of each event
+      const segments = new Map<string, Set<string>>();
+      const segmentOf = new Map<string, string>();
+
+      // Segments created by this outbox, marked open until its scope closes
+      const owned = new Set<string>();
+      const newSegmentName = () => {
+        const segment = `${OUTBOX_FILE_PREFIX}${Date.now()}-${process.pid}-${segmentCounter++}.jsonl`;
+        owned.add(segment);
+        openSegments.add(segment);
+        return segment;
+      };
+      const releaseSegment = (segment: string) => {
+        owned.delete(segment);
+        openSegments.delete(segment);
+      };
+      yield* Effect.addFinalizer(() =>
+        Effect.sync(() => {
+          for (const segment of owned) openSegments.delete(segment);
+        })
+      );
+
+      const logDiskError = (operation: string) => (error: unknown) =>
+        Effect.logWarning('Outbox disk operation failed', {
+          operation,
+          dir,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+      const track = (segment: string, ids: Iterable<string>) => {
+        const pending = segments.get(segment) ?? new Set<string>();
+        for (const id of ids) {
+          pending.add(id);
+          segmentOf.set(id, segment);
+        }
+        segments.set(segment, pending);
+      };
+
+      const forgetSegment = (segment: string) => {
+        for (const id of segments.get(segment) ?? []) segmentOf.delete(id);
+        segments.delete(segment);
+      };
+
+      /**
+       * Apply retention and forget segments it removed.
+       */
+      const applyRetention = Effect.promise(async () => {
+        await cleanupJsonlFiles(dir, OUTBOX_FILE_PREFIX, config);
+        return await readdir(dir).catch(() => [] as string[]);
+      }).pipe(
+        Effect.map((files) => {
+          for (const segment of Array.from(segments.keys())) {
+            if (!files.includes(segment)) forgetSegment(segment);
+          }
+          return files;
+        })
+      );
+
+      // Load what previous runs left behind
+      yield* Effect.promise(() => mkdir(dir, { recursive: true }).catch(() => undefined));
+      const files = yield* applyRetention;
+      const replayed: IngestionEvent[] = [];
+
+      for (const file of files.filter((f) => f.startsWith(OUTBOX_FILE_PREFIX)).sort()) {
+        if (isSegmentInUse(file)) continue;
+        const segment = newSegmentName();
+        const content = yield* Effect.promise(() =>
+          adoptSpoolFile(join(dir, file), join(dir, segment))
+        );
+        const events = parseSegment(content);
+        if (events.size === 0) {
+          releaseSegment(segment);
+          yield* Effect.promise(() => unlink(join(dir, segment)).catch(() => undefined));
+          continue;
+        }
+        track(segment, events.keys());
+        replayed.push(...events.values());
+      }
+
+      // Started after the adopted segments, so it sorts after them on the next replay
+      let current = newSegmentName();
+      let currentCount = 0;
+
+      if (replayed.length > 0) {
+        yield* Effect.logInfo('Outbox has unsent events from a previous run', {
+          events: replayed.length,
+          segments: segments.size,
+        });
+      }
+
+      const writeLines = (segment: string, lines: SegmentLine[]) =>
+        Effect.tryPromise(() =>
+          appendFile(
+            join(dir, segment),
+            lines.map((line) => `${JSON.stringify(line)}\n`).join(''),
+            'utf-8'
+          )
+        );
+
+      return Outbox.of({
+        append: (events) =>
+          Effect.gen(function* () {
+            if (events.length === 0) return;
+
+            if (currentCount >= OUTBOX_SEGMENT_MAX_EVENTS) {
+              current = newSegmentName();
+              currentCount = 0;
+              yield* applyRetention;
+            }
+
+            yield* writeLines(
+              current,
+              events.map((event) => ({ event }))
+            ).pipe(
+              Effect.tap(() =>
+                Effect.sync(() => {
+                  track(
+                    current,
+                    events.map((event) => event.id)
+                  );
+                  currentCount += events.length;
+                })
+              ),
+              Effect.catchAll(logDiskError('append'))
+            );
+          }).pipe(lock.withPermits(1)),
+
+        acknowledge: (eventIds) =>
+          Effect.gen(function* () {
+            const bySegment = new Map<string, string[]>();
+            for (const id of eventIds) {
+              const segment = segmentOf.get(id);
+              if (!segment) continue;
+              segmentOf.delete(id);
+              segments.get(segment)?.delete(id);
+              bySegment.set(segment, [...(bySegment.get(segment) ?? []), id]);
+            }
+
+            for (const [segment, ids] of bySegment) {
+              if (segments.get(segment)?.size === 0) {
+                // Everything in the segment is done - drop it and start afresh if it was current
+                segments.delete(segment);
+                releaseSegment(segment);
+                if (segment === current) {
+                  current = newSegmentName();
+                  currentCount = 0;
+                }
+                yield* Effect.tryPromise(() => unlink(join(dir, segment))).pipe(
+                  Effect.catchAll(logDiskError('delete'))
+                );
+              } else {
+                yield* writeLines(segment, [{ ack: ids }]).pipe(
+                  Effect.catchAll(logDiskError('acknowledge'))
+                );
+              }
+            }
+          }).pipe(lock.withPermits(1)),
+
+        replay: Effect.succeed(replayed),
+
+        size: Effect.sync(() => segmentOf.size),
+      });
+    })
+  );
@@ -1,10 +1,16 @@
 /**
  * ProcessedIds service - tracks processed event IDs for deduplication.
  *
- * Uses Ref<HashSet> for efficient membership testing.
+ * Uses Ref<HashSet> for efficient membership testing. ProcessedIdsPersistent
+ * additionally keeps the IDs on disk so they survive restarts.
  */
 
 import { Context, Effect, HashSet, Layer, Ref } from 'effect';
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import type { LangfuseExporterConfig } from '../../lib/config.js';
+import { PROCESSED_IDS_FILE } from '../constants.js';
 
 /**
  * ProcessedIds service interface.
@@ -69,3 +75,150 @@ export const ProcessedIdsLive = Layer.effect(
     });
   })
 );
+
+/**
+ * Parse the persistent store file into an insertion-ordered map (key -> processedAt).
+ * Expired and malformed lines are dropped; only the newest maxEntries are kept.
+ */
+function parseProcessedIds(
+  content: string,
+  expiresBefore: number,
+  maxEntries: number
+): Map<string, number> {
+  const entries = new Map<string, number>();
+
+  for (const line of content.split('\n')) {
+    const separator = line.indexOf('\t');
+    if (separator === -1) continue;
+
+    const processedAt = Number(line.slice(0, separator));
+    const key = line.slice(separator + 1);
+    if (!key || !Number.isFinite(processedAt) || processedAt < expiresBefore) continue;
+
+    // Re-insert so the latest occurrence defines the order
+    entries.delete(key);
+    entries.set(key, processedAt);
+  }
+
+  while (entries.size > maxEntries) {
+    const oldest = entries.keys().next().value as string;
+    entries.delete(oldest);
+  }
+
+  return entries;
+}
+
+/**
+ * Serialize entries in the store's line format.
+ */
+function serializeProcessedIds(entries: ReadonlyMap<string, number>): string {
+  let content = '';
+  for (const [key, processedAt] of entries) {
+    content += `${processedAt}\t${key}\n`;
+  }
+  return content;
+}
+
+/**
+ * Persistent implementation of ProcessedIds.
+ *
+ * Keys are appended to a compact TSV file under spoolDir so deduplication
+ * survives restarts. Entries older than retentionDays expire, and at most
+ * processedIdsMaxEntries are held in memory (least recently used evicted first).
+ * The file is compacted on startup and whenever it grows past the memory cap.
+ *
+ * Disk errors are logged and never fail the caller - the store keeps working
+ * in memory.
+ */
+export const ProcessedIdsPersistent = (config: LangfuseExporterConfig) =>
+  Layer.effect(
+    ProcessedIds,
+    Effect.gen(function* () {
+      const filePath = join(config.spoolDir, PROCESSED_IDS_FILE);
+      const retentionMs = config.retentionDays * 24 * 60 * 60 * 1000;
+      const maxEntries = Math.max(1, config.processedIdsMaxEntries);
+
+      const logDiskError = (operation: string) => (error: unknown) =>
+        Effect.logWarning('ProcessedIds store disk operation failed', {
+          operation,
+          file: filePath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+      const content = yield* Effect.tryPromise(async () => {
+        await mkdir(config.spoolDir, { recursive: true });
+        return await readFile(filePath, 'utf-8');
+      }).pipe(Effect.orElseSucceed(() => ''));
+
+      // Insertion order doubles as LRU order: touching a key moves it to the end.
+      // Mutations happen inside Effect.sync, so they're atomic on the JS thread.
+      const entries = parseProcessedIds(content, Date.now() - retentionMs, maxEntries);
+      const appendedRef = yield* Ref.make(0);
+
+      const compact = Effect.tryPromise(async () => {
+        const tmpPath = `${filePath}.tmp`;
+        await writeFile(tmpPath, serializeProcessedIds(entries), 'utf-8');
+        await rename(tmpPath, filePath);
+      }).pipe(Effect.zipRight(Ref.set(appendedRef, 0)), Effect.catchAll(logDiskError('compact')));
+
+      const append = (key: string, processedAt: number) =>
+        Effect.tryPromise(() => appendFile(filePath, `${processedAt}\t${key}\n`, 'utf-8')).pipe(
+          Effect.zipRight(Ref.updateAndGet(appendedRef, (n) => n + 1)),
+          // The file only holds what memory could; rewrite once it has grown past that
+          Effect.flatMap((appended) => (appended > maxEntries ? compact : Effect.void)),
+          Effect.catchAll(logDiskError('append'))
+        );
+
+      /**
+       * Look up a key, dropping it if expired and marking it recently used otherwise.
+       */
+      const lookup = (id: string) =>
+        Effect.sync(() => {
+          const processedAt = entries.get(id);
+          if (processedAt === undefined) return false;
+
+          entries.delete(id);
+          if (processedAt < Date.now() - retentionMs) return false;
+
+          entries.set(id, processedAt);
+          return true;
+        });
+
+      yield* compact;
+      yield* Effect.logInfo('Persistent ProcessedIds store loaded', {
+        file: filePath,
+        entries: entries.size,
+      });
+
+      return ProcessedIds.of({
+        has: lookup,
+
+        add: (id) =>
+          Effect.gen(function* () {
+            if (yield* lookup(id)) {
+              return false;
+            }
+
+            const processedAt = Date.now();
+            yield* Effect.sync(() => {
+              entries.set(id, processedAt);
+              while (entries.size > maxEntries) {
+                const oldest = entries.keys().next().value as string;
+                entries.delete(oldest);
+              }
+            });
+            yield* append(id, processedAt);
+            return true;
+          }),
+
+        remove: (id) =>
+          Effect.sync(() => entries.delete(id)).pipe(
+            Effect.flatMap((removed) => (removed ? compact : Effect.void))
+          ),
+
+        size: Effect.sync(() => entries.size),
+
+        clear: Effect.sync(() => entries.clear()).pipe(Effect.zipRight(compact)),
+      });
+    })
+  );
@@ -0,0 +1,61 @@
+/**
+ * SessionLookup service - reads session details from OpenCode.
+ *
+ * Used to name traces for sessions whose session.created event was never
+ * seen (e.g. sessions resumed after an OpenCode restart), and to nest or link
+ * them under their parent when they are subagent sessions. Optional: without
+ * it, such traces keep the default title until a session.updated arrives.
+ */
+
+import type { PluginInput } from '@opencode-ai/plugin';
+import { Context, Effect } from 'effect';
+
+import { SESSION_LOOKUP_TIMEOUT } from '../constants.js';
+
+/**
+ * Session details read from OpenCode.
+ */
+export interface SessionInfo {
+  readonly title?: string;
+  /** Parent session ID, set for subagent sessions */
+  readonly parentId?: string;
+}
+
+/**
+ * SessionLookup service interface.
+ */
+export interface SessionLookup {
+  /**
+   * Get a session's details, or undefined if it can't be found.
+   */
+  readonly getSession: (sessionId: string) => Effect.Effect<SessionInfo | undefined>;
+}
+
+/**
+ * SessionLookup service tag for dependency injection.
+ */
+export const SessionLookup = Context.GenericTag<SessionLookup>('SessionLookup');
+
+/**
+ * SessionLookup backed by the OpenCode client passed to the plugin.
+ * Lookups are bounded by SESSION_LOOKUP_TIMEOUT and never fail.
+ */
+export const makeSessionLookup = (client: PluginInput['client']) =>
+  SessionLookup.of({
+    getSession: (sessionId) =>
+      Effect.tryPromise(() => client.session.get({ path: { id: sessionId } })).pipe(
+        Effect.map((response): SessionInfo | undefined =>
+          response.data
+            ? { title: response.data.title || undefined, parentId: response.data.parentID }
+            : undefined
+        ),
+        Effect.timeoutFail({
+          duration: SESSION_LOOKUP_TIMEOUT,
+          onTimeout: () => new Error('Session lookup timed out'),
+        }),
+        Effect.tapError((error) =>
+          Effect.logDebug('Session lookup failed', { sessionId, error: String(error) })
+        ),
+        Effect.orElseSucceed(() => undefined)
+      ),
+  });
@@ -1,12 +1,22 @@
 /**
  * SessionState service - tracks active traces and their state.
  *
- * Uses Ref<Map> for thread-safe mutable state.
+ * Uses Ref<Map> for thread-safe mutable state. The persistent implementation
+ * evicts idle sessions to disk and rehydrates them on their next event.
  */
 
-import { Context, Effect, Layer, Ref } from 'effect';
+import { Clock, Context, Effect, Layer, Ref, Schedule } from 'effect';
+import { mkdir, readdir, readFile, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
 
-import type { TraceState } from '../streams/types.js';
+import { cleanupSpoolFiles } from '../../lib/audit-log.js';
+import type { LangfuseExporterConfig } from '../../lib/config.js';
+import {
+  SESSION_EVICTION_INTERVAL,
+  SESSION_FILE_PREFIX,
+  SESSION_FILE_SUFFIX,
+} from '../constants.js';
+import type { MessageInfo, SessionTotals, TraceState } from '../streams/types.js';
 
 /**
  * SessionState service interface.
@@ -42,7 +52,7 @@ export interface SessionState {
   readonly has: (sessionId: string) => Effect.Effect<boolean>;
 
   /**
-   * Get all active sessions.
+   * Get all active (in-memory) sessions.
    */
   readonly getAll: Effect.Effect<ReadonlyMap<string, TraceState>>;
 
@@ -102,3 +112,241 @@ export const SessionStateLive = Layer.effect(
     });
   })
 );
+
+/**
+ * The part of a TraceState kept on disk while a session is evicted.
+ * Open spans, steps and pending hook data are not kept.
+ */
+interface SessionSnapshot {
+  traceId: string;
+  sessionId: string;
+  title: string;
+  createdAt: number;
+  messages: Array<[string, MessageInfo]>;
+  compactionCount?: number;
+  droppedEvents?: number;
+  hasTraceInput?: boolean;
+  tags?: readonly string[];
+  totals?: SessionTotals;
+  parentSessionId?: string;
+  rootObservationId?: string;
+  langfuseSessionId?: string;
+}
+
+function toSnapshot(state: TraceState): SessionSnapshot {
+  return {
+    traceId: state.traceId,
+    sessionId: state.sessionId,
+    title: state.title,
+    createdAt: state.createdAt,
+    messages: [...state.messages],
+    compactionCount: state.compactionCount,
+    droppedEvents: state.droppedEvents,
+    hasTraceInput: state.hasTraceInput,
+    tags: state.tags,
+    totals: state.totals,
+    parentSessionId: state.parentSessionId,
+    rootObservationId: state.rootObservationId,
+    langfuseSessionId: state.langfuseSessionId,
+  };
+}
+
+function fromSnapshot(snapshot: SessionSnapshot): TraceState {
+  return {
+    traceId: snapshot.traceId,
+    sessionId: snapshot.sessionId,
+    title: snapshot.title,
+    createdAt: snapshot.createdAt,
+    messages: new Map(snapshot.messages),
+    spans: new Map(),
+    compactionCount: snapshot.compactionCount,
+    droppedEvents: snapshot.droppedEvents,
+    hasTraceInput: snapshot.hasTraceInput,
+    tags: snapshot.tags,
+    totals: snapshot.totals,
+    parentSessionId: snapshot.parentSessionId,
+    rootObservationId: snapshot.rootObservationId,
+    langfuseSessionId: snapshot.langfuseSessionId,
+  };
+}
+
+/**
+ * Persistent implementation of SessionState.
+ *
+ * Sessions without events for sessionIdleTimeoutMs are written to a snapshot
+ * file under spoolDir and dropped from memory. The next access to an evicted
+ * session loads it back, so its trace and message threading continue. All
+ * sessions are snapshotted on shutdown, and snapshots older than
+ * retentionDays are removed on startup. Only sessions with a snapshot are
+ * looked up on disk, so unknown sessions cost no file reads.
+ *
+ * Disk errors are logged and never fail the caller - an unreadable snapshot
+ * behaves like an unknown session.
+ */
+export const SessionStatePersistent = (config: LangfuseExporterConfig) =>
+  Layer.scoped(
+    SessionState,
+    Effect.gen(function* () {
+      const dir = config.spoolDir;
+      const stateRef = yield* Ref.make<Map<string, TraceState>>(new Map());
+      // Last access per in-memory session, and sessions with a snapshot on disk
+      const lastActive = new Map<string, number>();
+      const snapshots = new Set<string>();
+
+      const snapshotPath = (sessionId: string) =>
+        join(dir, `${SESSION_FILE_PREFIX}${encodeURIComponent(sessionId)}${SESSION_FILE_SUFFIX}`);
+
+      const logDiskError = (operation: string, sessionId: string) => (error: unknown) =>
+        Effect.logWarning('Session state disk operation failed', {
+          operation,
+          sessionId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+      const touch = (sessionId: string) =>
+        Effect.flatMap(Clock.currentTimeMillis, (now) =>
+          Effect.sync(() => {
+            lastActive.set(sessionId, now);
+          })
+        );
+
+      const put = (sessionId: string, state: TraceState) =>
+        Ref.update(stateRef, (map) => new Map(map).set(sessionId, state)).pipe(
+          Effect.zipRight(touch(sessionId))
+        );
+
+      const persist = (state: TraceState) =>
+        Effect.tryPromise(() =>
+          writeFile(
+            snapshotPath(state.sessionId),
+            `${JSON.stringify(toSnapshot(state))}\n`,
+            'utf-8'
+          )
+        ).pipe(
+          Effect.tap(() => Effect.sync(() => snapshots.add(state.sessionId))),
+          Effect.as(true),
+          Effect.catchAll((error) =>
+            Effect.as(logDiskError('evict', state.sessionId)(error), false)
+          )
+        );
+
+      /**
+       * Load an evicted session back into memory.
+       */
+      const rehydrate = (sessionId: string) =>
+        Effect.tryPromise(() => readFile(snapshotPath(sessionId), 'utf-8')).pipe(
+          Effect.flatMap((content) => Effect.try(() => JSON.parse(content) as SessionSnapshot)),
+          Effect.map(fromSnapshot),
+          Effect.tap((state) => put(sessionId, state)),
+          Effect.tap(() => Effect.logDebug('Rehydrated session state', { sessionId })),
+          Effect.orElseSucceed(() => undefined)
+        );
+
+      const lookup = (sessionId: string) =>
+        Effect.gen(function* () {
+          const state = (yield* Ref.get(stateRef)).get(sessionId);
+          if (state === undefined) {
+            return snapshots.has(sessionId) ? yield* rehydrate(sessionId) : undefined;
+          }
+          yield* touch(sessionId);
+          return state;
+        });
+
+      /**
+       * Move sessions idle for longer than the timeout out of memory.
+       */
+      const evictIdle = Effect.gen(function* () {
+        const cutoff = (yield* Clock.currentTimeMillis) - config.sessionIdleTimeoutMs;
+        const idle = [...(yield* Ref.get(stateRef)).values()].filter(
+          (state) => (lastActive.get(state.sessionId) ?? 0) < cutoff
+        );
+
+        let evicted = 0;
+        for (const state of idle) {
+          if (!(yield* persist(state))) continue;
+          // Skip sessions that saw an event while the snapshot was written
+          if ((lastActive.get(state.sessionId) ?? 0) >= cutoff) continue;
+
+          yield* Ref.update(stateRef, (map) => {
+            const newMap = new Map(map);
+            newMap.delete(state.sessionId);
+            return newMap;
+          });
+          lastActive.delete(state.sessionId);
+          evicted++;
+        }
+
+        if (evicted > 0) {
+          yield* Effect.logInfo('Evicted idle sessions', { evicted });
+        }
+      });
+
+      yield* Effect.promise(async () => {
+        await mkdir(dir, { recursive: true }).catch(() => undefined);
+        await cleanupSpoolFiles(dir, SESSION_FILE_PREFIX, SESSION_FILE_SUFFIX, config);
+        const files = await readdir(dir).catch(() => [] as string[]);
+        for (const file of files) {
+          if (file.startsWith(SESSION_FILE_PREFIX) && file.endsWith(SESSION_FILE_SUFFIX)) {
+            const encoded = file.slice(SESSION_FILE_PREFIX.length, -SESSION_FILE_SUFFIX.length);
+            snapshots.add(decodeURIComponent(encoded));
+          }
+        }
+      });
+
+      if (config.sessionIdleTimeoutMs > 0) {
+        yield* evictIdle.pipe(
+          Effect.repeat(Schedule.spaced(SESSION_EVICTION_INTERVAL)),
+          Effect.delay(SESSION_EVICTION_INTERVAL),
+          Effect.forkScoped
+        );
+      }
+
+      // Keep every session for the next run
+      yield* Effect.addFinalizer(() =>
+        Effect.flatMap(Ref.get(stateRef), (map) =>
+          Effect.forEach(map.values(), persist, { discard: true })
+        )
+      );
+
+      return SessionState.of({
+        get: lookup,
+
+        set: put,
+
+        update: (sessionId, fn) =>
+          Effect.gen(function* () {
+            if ((yield* lookup(sessionId)) === undefined) return undefined;
+
+            return yield* Ref.modify(stateRef, (map) => {
+              const existing = map.get(sessionId);
+              if (existing === undefined) {
+                return [undefined, map];
+              }
+              const updated = fn(existing);
+              return [updated, new Map(map).set(sessionId, updated)];
+            });
+          }),
+
+        delete: (sessionId) =>
+          Effect.gen(function* () {
+            yield* Ref.update(stateRef, (map) => {
+              const newMap = new Map(map);
+              newMap.delete(sessionId);
+              return newMap;
+            });
+            lastActive.delete(sessionId);
+            if (snapshots.delete(sessionId)) {
+              yield* Effect.promise(() => unlink(snapshotPath(sessionId)).catch(() => undefined));
+            }
+          }),
+
+        has: (sessionId) => Effect.map(lookup(sessionId), (state) => state !== undefined),
+
+        getAll: Ref.get(stateRef),
+
+        clear: Ref.set(stateRef, new Map()).pipe(
+          Effect.zipRight(Effect.sync(() => lastActive.clear()))
+        ),
+      });
+    })
+  );
@@ -0,0 +1,193 @@
+/**
+ * TraceExporter service - backend-neutral destination for traces and observations.
+ *
+ * The EventProcessor only talks to this service. Each backend (Langfuse, ...)
+ * is an adapter implementing the same interface, and the fan-out combines
+ * several adapters so every observation reaches every configured destination.
+ */
+
+import { Context, Effect, FiberSet, Schedule, type Scope } from 'effect';
+
+import type { LangfuseExporterConfig } from '../../lib/config.js';
+import { MAX_RETRY_ATTEMPTS, RETRY_BASE_DELAY, RETRY_MAX_DELAY } from '../constants.js';
+import type { ExporterError, ExporterOperation } from '../errors.js';
+
+export interface TraceData {
+  id: string;
+  sessionId: string;
+  name: string;
+  metadata?: Record<string, string | number | boolean | string[] | null>;
+  input?: unknown;
+  output?: unknown;
+  userId?: string;
+  tags?: string[];
+}
+
+export interface GenerationData {
+  id?: string;
+  traceId: string;
+  parentObservationId?: string;
+  name: string;
+  model?: string;
+  modelParameters?: Record<string, string | number | boolean | null>;
+  input?: unknown;
+  output?: unknown;
+  /** @deprecated Use usageDetails instead */
+  usage?: {
+    input?: number;
+    output?: number;
+    total?: number;
+  };
+  /**
+   * Detailed usage metrics (tokens).
+   * Keys: input, output, total, reasoning, cache_read, cache_write, etc.
+   */
+  usageDetails?: Record<string, number>;
+  /**
+   * Cost details in USD.
+   * Keys: total, input, output, etc.
+   */
+  costDetails?: Record<string, number>;
+  metadata?: Record<string, string | number | boolean | string[] | null>;
+  startTime?: Date;
+  endTime?: Date;
+}
+
+/**
+ * Observation severity level.
+ */
+export type ObservationLevel = 'DEBUG' | 'DEFAULT' | 'WARNING' | 'ERROR';
+
+export interface SpanData {
+  id?: string;
+  traceId: string;
+  parentObservationId?: string;
+  name: string;
+  input?: unknown;
+  output?: unknown;
+  metadata?: Record<string, string | number | boolean | string[] | null>;
+  startTime?: Date;
+  endTime?: Date;
+  /** Severity level (backends treat a missing level as DEFAULT) */
+  level?: ObservationLevel;
+  /** Human-readable status, typically the error message for ERROR level */
+  statusMessage?: string;
+}
+
+/**
+ * TraceExporter service interface.
+ *
+ * Upserts are keyed by id: calling them again with the same id updates the
+ * existing trace or observation.
+ */
+export interface TraceExporter {
+  /**
+   * Destination name, used in logs and errors.
+   */
+  readonly name: string;
+
+  /**
+   * Create or update a trace.
+   */
+  readonly upsertTrace: (data: TraceData) => Effect.Effect<void, ExporterError>;
+
+  /**
+   * Create or update a generation (LLM call).
+   */
+  readonly upsertGeneration: (data: GenerationData) => Effect.Effect<void, ExporterError>;
+
+  /**
+   * Create or update a span (tool call, operation).
+   */
+  readonly upsertSpan: (data: SpanData) => Effect.Effect<void, ExporterError>;
+
+  /**
+   * Flush buffered data to the destination.
+   */
+  readonly flush: Effect.Effect<void, ExporterError>;
+
+  /**
+   * Shutdown the exporter gracefully.
+   */
+  readonly shutdown: Effect.Effect<void, ExporterError>;
+
+  /**
+   * Plugin config the exporter was built with.
+   */
+  readonly config: LangfuseExporterConfig;
+}
+
+/**
+ * TraceExporter service tag for dependency injection.
+ */
+export const TraceExporter = Context.GenericTag<TraceExporter>('TraceExporter');
+
+/**
+ * Retry schedule applied per destination by the fan-out, after the first
+ * retry (which follows RETRY_BASE_DELAY). Only errors marked retryable are retried.
+ */
+const retrySchedule = Schedule.exponential(RETRY_BASE_DELAY).pipe(
+  Schedule.jittered,
+  Schedule.union(Schedule.spaced(RETRY_MAX_DELAY)), // Cap max delay (union takes the shorter)
+  Schedule.intersect(Schedule.recurs(MAX_RETRY_ATTEMPTS - 1)) // Limit total attempts
+);
+
+/**
+ * Combine several exporters into one that sends every call to all of them.
+ *
+ * Destinations run concurrently, and a failing destination is logged without
+ * affecting the others. Each call is tried once in line (keeping the order of
+ * calls per destination); retryable failures are retried in the background,
+ * so callers never wait on a destination's backoff. Retries still running
+ * when the scope closes are interrupted. The combined exporter never fails.
+ */
+export const fanOutExporters = (
+  exporters: ReadonlyArray<TraceExporter>,
+  config: LangfuseExporterConfig
+): Effect.Effect<TraceExporter, never, Scope.Scope> =>
+  Effect.gen(function* () {
+    const retrying = yield* FiberSet.make<void>();
+
+    const toAll = (
+      operation: ExporterOperation,
+      call: (exporter: TraceExporter) => Effect.Effect<void, ExporterError>
+    ): Effect.Effect<void, never> =>
+      Effect.forEach(
+        exporters,
+        (exporter) => {
+          const logFailure = (error: ExporterError) =>
+            Effect.logWarning('Exporter call failed', {
+              exporter: exporter.name,
+              operation,
+              error: error.message,
+            });
+
+          return call(exporter).pipe(
+            Effect.catchAll((error) =>
+              error.retryable
+                ? FiberSet.run(
+                    retrying,
+                    call(exporter).pipe(
+                      Effect.retry({ schedule: retrySchedule, while: (e) => e.retryable }),
+                      Effect.delay(RETRY_BASE_DELAY),
+                      Effect.catchAll(logFailure)
+                    )
+                  ).pipe(Effect.asVoid)
+                : logFailure(error)
+            )
+          );
+        },
+        { concurrency: 'unbounded', discard: true }
+      );
+
+    return TraceExporter.of({
+      name: exporters.map((exporter) => exporter.name).join('+'),
+      upsertTrace: (data) => toAll('upsertTrace', (exporter) => exporter.upsertTrace(data)),
+      upsertGeneration: (data) =>
+        toAll('upsertGeneration', (exporter) => exporter.upsertGeneration(data)),
+      upsertSpan: (data) => toAll('upsertSpan', (exporter) => exporter.upsertSpan(data)),
+      flush: toAll('flush', (exporter) => exporter.flush),
+      shutdown: toAll('shutdown', (exporter) => exporter.shutdown),
+      config,
+    });
+  });
@@ -7,27 +7,79 @@
  *
  * Strategy:
  * 1. Events come in through the queue
- * 2. For each event key, we track the latest event and a timeout
- * 3. When no updates arrive for 10s, we process the final state
- * 4. ProcessedIds prevents re-processing the same event
+ * 2. Parts that are known-final (ended text/reasoning, finished tools) are
+ *    processed immediately once their message is known
+ * 3. Other parts are keyed and debounced: when no updates arrive for
+ *    `debounceMs` (10s by default), we process the final state
+ * 4. When a message completes, its pending parts are processed right away
+ * 5. Parts whose message is still unknown when processed are held in an
+ *    orphan buffer until the message registers (or ORPHAN_PART_TIMEOUT passes)
+ * 6. ProcessedIds prevents re-processing the same event
+ * 7. On shutdown the queue is closed and every pending event is processed
+ *    immediately instead of waiting for its timer
  */
 
-import { Effect, Fiber, HashMap, Option, Ref, Stream } from 'effect';
+import { Clock, Duration, Effect, Fiber, HashMap, Option, Ref, Schedule, Stream } from 'effect';
 
-import { DEBOUNCE_DURATION } from '../constants.js';
+import {
+  DEBOUNCE_DURATION,
+  ORPHAN_PART_TIMEOUT,
+  SHUTDOWN_DRAIN_TIMEOUT,
+  SHUTDOWN_FLUSH_TIMEOUT,
+  SHUTDOWN_POLL_INTERVAL,
+} from '../constants.js';
 import { EventQueue } from '../services/EventQueue.js';
 import { ProcessedIds } from '../services/ProcessedIds.js';
+import { SessionLookup } from '../services/SessionLookup.js';
 import { SessionState } from '../services/SessionState.js';
-import { LangfuseClient } from '../services/LangfuseClient.js';
+import { TraceExporter } from '../services/TraceExporter.js';
 import {
   getEventKey,
-  type FileDiff,
+  type MessageInfo,
+  type MessagePartEvent,
   type ModelParams,
   type PluginEvent,
+  type SessionCompactedEvent,
+  type SessionCompactingEvent,
+  type SessionDiffEvent,
+  type SessionErrorEvent,
+  type SessionStatusEvent,
+  type SessionTotals,
+  type StepInfo,
+  type TokenUsage,
   type TraceState,
 } from './types.js';
+import type { SubagentTraceMode } from '../../lib/config.js';
+import { loadPricingCatalog, resolveCost, type PricingCatalog } from '../../lib/pricing.js';
 import { redactObject, redactText } from '../../lib/redaction.js';
-import { sessionToUUID } from '../../lib/session-id.js';
+import { generateObservationId, sessionToUUID } from '../../lib/session-id.js';
+import { resolveUserId } from '../../lib/user-id.js';
+
+/**
+ * Key in TraceState.spans for the currently open "agent busy" span.
+ */
+const BUSY_SPAN_KEY = 'session-status:busy';
+
+/**
+ * Key in TraceState.spans for a session-error span waiting for its failing message.
+ */
+const ERROR_SPAN_KEY = 'session-error';
+
+/**
+ * Totals of a session before anything was counted.
+ */
+const EMPTY_SESSION_TOTALS: SessionTotals = {
+  cost: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  reasoningTokens: 0,
+  cacheReadTokens: 0,
+  cacheWriteTokens: 0,
+  generations: 0,
+  toolCalls: 0,
+  toolErrors: 0,
+  changedFiles: [],
+};
 
 /**
  * State for tracking pending events and their debounce timers.
@@ -39,6 +91,16 @@ interface DebounceState {
   readonly timers: HashMap.HashMap<string, Fiber.RuntimeFiber<void, never>>;
 }
 
+/**
+ * Parts waiting for their message to be registered.
+ */
+interface OrphanState {
+  /** Latest event for each part key */
+  readonly parts: HashMap.HashMap<string, MessagePartEvent>;
+  /** When the first part of each messageId was buffered */
+  readonly bufferedAt: HashMap.HashMap<string, number>;
+}
+
 /**
  * Create the main event processing stream.
  */
@@ -46,18 +108,42 @@ export const createEventProcessor = Effect.gen(function* () {
   const eventQueue = yield* EventQueue;
   const processedIds = yield* ProcessedIds;
   const sessionState = yield* SessionState;
-  const langfuseClient = yield* LangfuseClient;
+  const exporter = yield* TraceExporter;
+  const sessionLookup = yield* Effect.serviceOption(SessionLookup);
 
   // Get redaction config
-  const config = langfuseClient.config;
+  const config = exporter.config;
   const redactPatterns = config.redactPatterns;
 
+  // Attached to every trace this processor creates
+  const userId = yield* Effect.promise(() => resolveUserId(config));
+  yield* Effect.logDebug('Resolved trace userId', { source: config.userIdSource, userId });
+
+  // Conversation turns included in generation inputs
+  const inputTurns = Math.max(1, config.generationInputTurns || 1);
+
+  // Bundled model prices plus config overrides, for providers reporting no cost
+  const pricing = loadPricingCatalog(config);
+
+  // Debounce duration for parts without a completion marker
+  const debounceDuration =
+    Number.isFinite(config.debounceMs) && config.debounceMs >= 0
+      ? Duration.millis(config.debounceMs)
+      : DEBOUNCE_DURATION;
+
   // Debounce state
   const stateRef = yield* Ref.make<DebounceState>({
     events: HashMap.empty(),
     timers: HashMap.empty(),
   });
 
+  // Orphan part buffer, and how many orphans were dropped in total
+  const orphanRef = yield* Ref.make<OrphanState>({
+    parts: HashMap.empty(),
+    bufferedAt: HashMap.empty(),
+  });
+  const droppedOrphansRef = yield* Ref.make(0);
+
   /**
    * Apply redaction to content.
    */
@@ -76,6 +162,23 @@ export const createEventProcessor = Effect.gen(function* () {
     return redactObject(obj, redactPatterns) as T;
   };
 
+  /**
+   * Apply redaction to reasoning content.
+   * Content is dropped entirely when excludeReasoning is set (timing is still exported).
+   */
+  const applyReasoningRedaction = (content: string | undefined): string | undefined => {
+    if (config.excludeReasoning) return undefined;
+    return applyRedaction(content);
+  };
+
+  /**
+   * Get the exporter for a session's observations (see exporterForSession).
+   */
+  const exporterFor = (sessionId: string): Effect.Effect<TraceExporter, never, never> =>
+    Effect.map(sessionState.get(sessionId), (state) =>
+      state ? exporterForSession(exporter, state) : exporter
+    );
+
   /**
    * Process a single event (called after debounce).
    */
@@ -83,6 +186,12 @@ export const createEventProcessor = Effect.gen(function* () {
     Effect.gen(function* () {
       const eventKey = getEventKey(event);
 
+      // Not marked as processed yet, so the part is handled once its message registers
+      if (needsMessage(event) && !(yield* hasMessage(event))) {
+        yield* bufferOrphanPart(event);
+        return;
+      }
+
       // Check if already processed
       const isNew = yield* processedIds.add(eventKey);
       if (!isNew) {
@@ -96,6 +205,22 @@ export const createEventProcessor = Effect.gen(function* () {
         sessionId: event.sessionId,
       });
 
+      // Events can arrive for sessions started before the plugin (e.g. resumed sessions)
+      if (!isSessionLifecycleEvent(event)) {
+        yield* ensureSessionState(
+          event.sessionId,
+          userId,
+          sessionState,
+          exporter,
+          sessionLookup,
+          applyRedaction,
+          config.subagentTraces
+        );
+      }
+
+      // Subagent sessions export into their parent's trace or Langfuse session
+      const sessionExporter = yield* exporterFor(event.sessionId);
+
       // Handle event based on type
       if (event.type === 'session.created' || event.type === 'session.updated') {
         const title = 'title' in event ? (event.title as string | undefined) : undefined;
@@ -103,12 +228,15 @@ export const createEventProcessor = Effect.gen(function* () {
           event.sessionId,
           event.type,
           title,
+          event.parentId,
+          userId,
           sessionState,
-          langfuseClient,
-          applyRedaction
+          exporter,
+          applyRedaction,
+          config.subagentTraces
         );
       } else if (event.type === 'session.delete') {
-        yield* handleSessionDelete(event.sessionId, sessionState, langfuseClient);
+        yield* handleSessionDelete(event.sessionId, sessionState, sessionExporter);
       } else if (event.type === 'message.updated') {
         yield* handleMessageEvent(
           event.sessionId,
@@ -119,46 +247,39 @@ export const createEventProcessor = Effect.gen(function* () {
           event.parentId,
           event.cost,
           event.time,
+          event.summary,
+          event.errorName,
           sessionState,
-          langfuseClient
+          sessionExporter,
+          applyRedaction,
+          inputTurns,
+          pricing
         );
-      } else if (event.type === 'message.part.updated') {
-        yield* handleMessagePartEvent(
-          event.sessionId,
-          event.messageId,
-          event.partType,
-          event.content,
-          event.toolName,
-          event.toolInput,
-          event.toolOutput,
+      } else if (event.type === 'message.part.updated' && event.partType === 'reasoning') {
+        yield* handleReasoningPartEvent(
+          event,
           sessionState,
-          langfuseClient,
-          applyRedaction,
-          applyObjectRedaction
+          sessionExporter,
+          applyReasoningRedaction
         );
-      } else if (event.type === 'tool.execute.before' || event.type === 'tool.execute.after') {
-        yield* handleToolEvent(
-          event.sessionId,
-          event.type,
-          event.toolName,
-          event.toolInput,
-          event.toolOutput,
-          event.error,
+      } else if (
+        event.type === 'message.part.updated' &&
+        (event.partType === 'step-start' || event.partType === 'step-finish')
+      ) {
+        yield* handleStepPartEvent(event, sessionState);
+      } else if (event.type === 'message.part.updated') {
+        yield* handleMessagePartEvent(
+          event,
           sessionState,
-          langfuseClient,
+          sessionExporter,
           applyRedaction,
-          applyObjectRedaction
+          applyObjectRedaction,
+          inputTurns
         );
       } else if (event.type === 'chat.params') {
         yield* handleChatParamsEvent(event.sessionId, event.params, sessionState);
       } else if (event.type === 'session.diff') {
-        yield* handleSessionDiffEvent(
-          event.sessionId,
-          event.messageId,
-          event.diffs,
-          sessionState,
-          langfuseClient
-        );
+        yield* handleSessionDiffEvent(event, sessionState, sessionExporter);
       } else if (event.type === 'chat.message') {
         yield* handleChatMessageEvent(
           event.sessionId,
@@ -166,9 +287,26 @@ export const createEventProcessor = Effect.gen(function* () {
           event.model,
           event.agent,
           sessionState,
-          langfuseClient
+          sessionExporter,
+          applyRedaction
         );
+      } else if (event.type === 'session.error') {
+        yield* handleSessionErrorEvent(event, sessionState, sessionExporter, applyRedaction);
+      } else if (event.type === 'session.status') {
+        yield* handleSessionStatusEvent(event, sessionState, sessionExporter, applyRedaction);
+      } else if (event.type === 'session.compacting') {
+        yield* handleSessionCompactingEvent(event, sessionState, sessionExporter, applyRedaction);
+      } else if (event.type === 'session.compacted') {
+        yield* handleSessionCompactedEvent(event, sessionState, sessionExporter, applyRedaction);
       }
+
+      yield* handleDroppedEvents(
+        event.sessionId,
+        eventQueue,
+        sessionState,
+        sessionExporter,
+        applyRedaction
+      );
     }).pipe(
       Effect.catchAllCause((cause) =>
         Effect.logError('Error processing event', {
@@ -184,7 +322,7 @@ export const createEventProcessor = Effect.gen(function* () {
   const scheduleProcessing = (eventKey: string): Effect.Effect<void, never, never> =>
     Effect.gen(function* () {
       // Wait for debounce duration
-      yield* Effect.sleep(DEBOUNCE_DURATION);
+      yield* Effect.sleep(debounceDuration);
 
       // Get and remove the event from state
       const state = yield* Ref.get(stateRef);
@@ -212,34 +350,200 @@ export const createEventProcessor = Effect.gen(function* () {
    * - Chat params: must be immediate so params are stored before generation is created
    * - Chat message: immediate to capture metadata before message processing
    * - Session diff: immediate to attach file changes promptly
-   * - Only message.part events are debounced (to consolidate streaming text)
+   * - Session error: immediate so failures show up without delay
+   * - Session status: immediate so busy/idle transitions keep their order and timing
+   * - Compaction: immediate so the summary message nests under the compaction span
+   * - Step boundaries: immediate so step timing reflects when each LLM call ran
+   * - Other message.part events are debounced (to consolidate streaming text)
    */
   const shouldProcessImmediately = (event: PluginEvent): boolean => {
     return (
+      (event.type === 'message.part.updated' &&
+        (event.partType === 'step-start' || event.partType === 'step-finish')) ||
       event.type === 'session.created' ||
       event.type === 'session.updated' ||
       event.type === 'session.delete' ||
       event.type === 'message.updated' ||
       event.type === 'chat.params' ||
       event.type === 'chat.message' ||
-      event.type === 'session.diff'
+      event.type === 'session.diff' ||
+      event.type === 'session.error' ||
+      event.type === 'session.status' ||
+      event.type === 'session.compacting' ||
+      event.type === 'session.compacted'
     );
   };
 
+  /**
+   * Check if a part carries a completion marker, so no further updates are expected.
+   *
+   * - Text and reasoning parts once `time.end` is set
+   * - Tool calls once they reach `completed` or `error`
+   */
+  const isFinalPart = (event: PluginEvent): event is MessagePartEvent => {
+    if (event.type !== 'message.part.updated') return false;
+    if (event.partType === 'text' || event.partType === 'reasoning') {
+      return event.time?.end !== undefined;
+    }
+    if (event.partType === 'tool-call') {
+      return event.toolStatus === 'completed' || event.toolStatus === 'error';
+    }
+    return false;
+  };
+
+  /**
+   * Check if the message a part belongs to has been registered.
+   * Parts of unknown messages stay debounced until the message completes.
+   */
+  const hasMessage = (event: MessagePartEvent): Effect.Effect<boolean, never, never> =>
+    Effect.map(
+      sessionState.get(event.sessionId),
+      (state) => state?.messages.has(event.messageId) ?? false
+    );
+
+  /**
+   * Count dropped orphan parts and report them.
+   */
+  const recordDroppedOrphans = (dropped: number): Effect.Effect<void, never, never> =>
+    Effect.gen(function* () {
+      if (dropped === 0) return;
+      const total = yield* Ref.updateAndGet(droppedOrphansRef, (n) => n + dropped);
+      yield* Effect.logWarning('Dropped parts whose message never arrived', {
+        dropped,
+        totalDropped: total,
+      });
+    });
+
+  /**
+   * Drop orphan parts of messages that have been waiting longer than
+   * ORPHAN_PART_TIMEOUT. Runs whenever the buffer is touched, so the
+   * buffer can only grow while events keep arriving.
+   */
+  const expireOrphanParts: Effect.Effect<void, never, never> = Effect.gen(function* () {
+    const cutoff = (yield* Clock.currentTimeMillis) - Duration.toMillis(ORPHAN_PART_TIMEOUT);
+
+    const state = yield* Ref.getAndUpdate(orphanRef, (s) => {
+      const bufferedAt = HashMap.filter(s.bufferedAt, (at) => at >= cutoff);
+      return {
+        parts: HashMap.filter(s.parts, (part) => HashMap.has(bufferedAt, part.messageId)),
+        bufferedAt,
+      };
+    });
+
+    const expired = HashMap.filter(state.parts, (part) => {
+      const bufferedAt = HashMap.get(state.bufferedAt, part.messageId);
+      return Option.isSome(bufferedAt) && bufferedAt.value < cutoff;
+    });
+    yield* recordDroppedOrphans(HashMap.size(expired));
+  });
+
+  /**
+   * Hold a part until its message registers, keeping only its latest update.
+   */
+  const bufferOrphanPart = (event: MessagePartEvent): Effect.Effect<void, never, never> =>
+    Effect.gen(function* () {
+      yield* expireOrphanParts;
+
+      const now = yield* Clock.currentTimeMillis;
+      yield* Ref.update(orphanRef, (s) => ({
+        parts: HashMap.set(s.parts, getEventKey(event), event),
+        bufferedAt: HashMap.has(s.bufferedAt, event.messageId)
+          ? s.bufferedAt
+          : HashMap.set(s.bufferedAt, event.messageId, now),
+      }));
+
+      yield* Effect.logDebug('Buffered part until its message arrives', {
+        sessionId: event.sessionId,
+        messageId: event.messageId,
+        partType: event.partType,
+      });
+    });
+
+  /**
+   * Process the orphan parts of a message that just registered.
+   */
+  const releaseOrphanParts = (messageId: string): Effect.Effect<void, never, never> =>
+    Effect.gen(function* () {
+      yield* expireOrphanParts;
+
+      const state = yield* Ref.getAndUpdate(orphanRef, (s) => ({
+        parts: HashMap.filter(s.parts, (part) => part.messageId !== messageId),
+        bufferedAt: HashMap.remove(s.bufferedAt, messageId),
+      }));
+
+      const parts = Array.from(HashMap.values(state.parts))
+        .filter((part) => part.messageId === messageId)
+        .sort((a, b) => a.timestamp - b.timestamp);
+      yield* Effect.forEach(parts, processEvent, { discard: true });
+    });
+
+  /**
+   * Remove an event from debounce state and cancel its timer.
+   */
+  const takePending = (eventKey: string): Effect.Effect<Option.Option<PluginEvent>, never, never> =>
+    Effect.gen(function* () {
+      const state = yield* Ref.getAndUpdate(stateRef, (s) => ({
+        events: HashMap.remove(s.events, eventKey),
+        timers: HashMap.remove(s.timers, eventKey),
+      }));
+
+      const timer = HashMap.get(state.timers, eventKey);
+      if (Option.isSome(timer)) {
+        yield* Fiber.interrupt(timer.value);
+      }
+
+      return HashMap.get(state.events, eventKey);
+    });
+
+  /**
+   * Process pending parts of a message as soon as the message completes,
+   * instead of waiting for their debounce timers.
+   */
+  const flushPendingParts = (messageId: string): Effect.Effect<void, never, never> =>
+    Effect.gen(function* () {
+      const state = yield* Ref.get(stateRef);
+      const keys = Array.from(HashMap.values(state.events))
+        .filter((e) => e.type === 'message.part.updated' && e.messageId === messageId)
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map(getEventKey);
+
+      for (const key of keys) {
+        const pending = yield* takePending(key);
+        if (Option.isSome(pending)) {
+          yield* processEvent(pending.value);
+        }
+      }
+    });
+
   /**
    * Handle an incoming event - update state and reset debounce timer.
-   * Session events are processed immediately without debounce.
+   * Session events and final parts are processed immediately without debounce.
    */
   const handleIncomingEvent = (event: PluginEvent): Effect.Effect<void, never, never> =>
     Effect.gen(function* () {
       // Session events must be processed immediately
       if (shouldProcessImmediately(event)) {
         yield* processEvent(event);
+        if (event.type === 'message.updated') {
+          yield* flushPendingParts(event.messageId);
+          yield* releaseOrphanParts(event.messageId);
+          // After its parts, so the rollups include the message's tool calls
+          if (event.role === 'assistant') {
+            yield* handleSessionTotals(event.sessionId, sessionState, exporter, applyRedaction);
+          }
+        }
         return;
       }
 
       const eventKey = getEventKey(event);
 
+      // Final parts skip the debounce, replacing any earlier pending update
+      if (isFinalPart(event) && (yield* hasMessage(event))) {
+        yield* takePending(eventKey);
+        yield* processEvent(event);
+        return;
+      }
+
       // Get current state
       const state = yield* Ref.get(stateRef);
 
@@ -259,6 +563,36 @@ export const createEventProcessor = Effect.gen(function* () {
       });
     });
 
+  /**
+   * Process every event still waiting for its debounce timer.
+   * Called once the queue has been shut down, so no new events can arrive.
+   */
+  const drainPendingEvents: Effect.Effect<void, never, never> = Effect.gen(function* () {
+    const state = yield* Ref.getAndSet(stateRef, {
+      events: HashMap.empty(),
+      timers: HashMap.empty(),
+    });
+
+    yield* Fiber.interruptAll(HashMap.values(state.timers));
+
+    // Process in arrival order so parts land after the messages they belong to
+    const pending = Array.from(HashMap.values(state.events)).sort(
+      (a, b) => a.timestamp - b.timestamp
+    );
+
+    if (pending.length > 0) {
+      yield* Effect.logInfo('Draining pending events', { count: pending.length });
+      yield* Effect.forEach(pending, processEvent, { discard: true });
+    }
+
+    // Messages that never registered can't get their parts anymore
+    const orphans = yield* Ref.getAndSet(orphanRef, {
+      parts: HashMap.empty(),
+      bufferedAt: HashMap.empty(),
+    });
+    yield* recordDroppedOrphans(HashMap.size(orphans.parts));
+  });
+
   /**
    * Log when an event is received from the queue.
    */
@@ -272,15 +606,221 @@ export const createEventProcessor = Effect.gen(function* () {
    * Create a stream that consumes from the queue and processes events.
    *
    * Pipeline: Queue -> Log -> Handle (with debounce for non-immediate events)
+   * The stream ends when the queue is shut down, after draining pending events.
    */
   const processingStream = Stream.fromQueue(eventQueue.queue).pipe(
     Stream.tap(logEventReceived),
-    Stream.mapEffect(handleIncomingEvent)
+    Stream.mapEffect(handleIncomingEvent),
+    Stream.onEnd(drainPendingEvents)
   );
 
   return processingStream;
 });
 
+/**
+ * Build Langfuse usageDetails from token usage, skipping empty token types.
+ */
+function buildUsageDetails(usage: TokenUsage | undefined): Record<string, number> | undefined {
+  if (!usage) return undefined;
+
+  const usageDetails: Record<string, number> = {};
+  if (usage.promptTokens !== undefined) usageDetails.input = usage.promptTokens;
+  if (usage.completionTokens !== undefined) usageDetails.output = usage.completionTokens;
+  if (usage.totalTokens !== undefined) usageDetails.total = usage.totalTokens;
+  if (usage.reasoningTokens !== undefined && usage.reasoningTokens > 0) {
+    usageDetails.reasoning = usage.reasoningTokens;
+  }
+  if (usage.cacheReadTokens !== undefined && usage.cacheReadTokens > 0) {
+    usageDetails.cache_read = usage.cacheReadTokens;
+  }
+  if (usage.cacheWriteTokens !== undefined && usage.cacheWriteTokens > 0) {
+    usageDetails.cache_write = usage.cacheWriteTokens;
+  }
+
+  return Object.keys(usageDetails).length > 0 ? usageDetails : undefined;
+}
+
+/**
+ * Context size of a generation: prompt tokens plus cached tokens.
+ * OpenCode's input tokens exclude cache reads and writes.
+ */
+function contextTokens(usage: TokenUsage): number {
+  return (usage.promptTokens ?? 0) + (usage.cacheReadTokens ?? 0) + (usage.cacheWriteTokens ?? 0);
+}
+
+/**
+ * The most recently registered assistant message of a session, as [messageId, info].
+ */
+function latestAssistantMessage(state: TraceState): [string, MessageInfo] | undefined {
+  return Array.from(state.messages).findLast(([, info]) => info.role === 'assistant');
+}
+
+/**
+ * Name of a session's trace, redacted like any other exported text.
+ * Trace updates resend it, so it must never carry the raw title.
+ */
+function traceName(
+  state: TraceState,
+  applyRedaction: (s: string | undefined) => string | undefined
+): string {
+  return applyRedaction(state.title) || 'OpenCode Session';
+}
+
+/**
+ * Apply a change to a session's running totals.
+ */
+function updateTotals(state: TraceState, f: (totals: SessionTotals) => SessionTotals): TraceState {
+  return { ...state, totals: f(state.totals ?? EMPTY_SESSION_TOTALS) };
+}
+
+/**
+ * Build the trace metadata for a session's totals.
+ * The cache hit ratio is the share of prompt tokens read from the cache.
+ */
+function buildTotalsMetadata(totals: SessionTotals): Record<string, number> {
+  const metadata: Record<string, number> = {
+    total_cost: Math.round(totals.cost * 1e6) / 1e6,
+    input_tokens: totals.inputTokens,
+    output_tokens: totals.outputTokens,
+    reasoning_tokens: totals.reasoningTokens,
+    cache_read_tokens: totals.cacheReadTokens,
+    cache_write_tokens: totals.cacheWriteTokens,
+    generations: totals.generations,
+    tool_calls: totals.toolCalls,
+    tool_errors: totals.toolErrors,
+    files_changed: totals.changedFiles.length,
+  };
+
+  const promptTokens = totals.inputTokens + totals.cacheReadTokens + totals.cacheWriteTokens;
+  if (promptTokens > 0) {
+    metadata.cache_hit_ratio = Math.round((totals.cacheReadTokens / promptTokens) * 1e4) / 1e4;
+  }
+
+  return metadata;
+}
+
+/**
+ * Trace tags for a `provider/model` string.
+ */
+function modelTags(model: string | undefined): string[] {
+  if (!model) return [];
+  const separator = model.indexOf('/');
+  if (separator === -1) return [`model:${model}`];
+  return [`provider:${model.slice(0, separator)}`, `model:${model.slice(separator + 1)}`];
+}
+
+/**
+ * Add tags to the trace's tags. Returns the new list, or undefined if nothing was added.
+ */
+function mergeTraceTags(state: TraceState, tags: readonly string[]): string[] | undefined {
+  const existing = state.tags ?? [];
+  const added = tags.filter((tag, i) => !existing.includes(tag) && tags.indexOf(tag) === i);
+  return added.length > 0 ? [...existing, ...added] : undefined;
+}
+
+/**
+ * Build a generation's chat-format input: the prompting user message, preceded
+ * by up to `turns - 1` earlier turns. Compaction summaries are left out.
+ * Returns undefined until the user message's text is known.
+ */
+function buildGenerationInput(
+  state: TraceState,
+  userMessageId: string,
+  turns: number
+): Array<{ role: 'user' | 'assistant'; content: string }> | undefined {
+  const prompt = state.messages.get(userMessageId);
+  if (!prompt?.text) return undefined;
+
+  const entries = [...state.messages];
+  const earlier = entries
+    .slice(
+      0,
+      entries.findIndex(([id]) => id === userMessageId)
+    )
+    .reverse();
+
+  const history: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+  let turnsLeft = turns - 1;
+  for (const [, info] of earlier) {
+    if (turnsLeft <= 0) break;
+    if (info.text !== undefined && !info.summary) {
+      history.unshift({ role: info.role, content: info.text });
+    }
+    if (info.role === 'user') turnsLeft--;
+  }
+
+  return [...history, { role: 'user', content: prompt.text }];
+}
+
+/**
+ * Observation ID for a step generation.
+ */
+function stepObservationId(sessionId: string, messageId: string, stepIndex: number): string {
+  return generateObservationId(sessionId, 'step', messageId, stepIndex);
+}
+
+/**
+ * Observation ID of the root span of a subagent session nested in its parent's trace.
+ */
+function subagentObservationId(sessionId: string): string {
+  return generateObservationId(sessionId, 'subagent');
+}
+
+/**
+ * Get the exporter for a session's observations.
+ *
+ * For subagent sessions nested in their parent's trace, trace updates become
+ * updates of the session's root span and root observations are nested under
+ * it. Linked subagent traces keep their parent's Langfuse session.
+ */
+function exporterForSession(exporter: TraceExporter, state: TraceState): TraceExporter {
+  const rootId = state.rootObservationId;
+  if (rootId) {
+    const nest = <T extends { id?: string; parentObservationId?: string }>(data: T): T =>
+      data.id === rootId
+        ? data
+        : { ...data, parentObservationId: data.parentObservationId ?? rootId };
+
+    return TraceExporter.of({
+      ...exporter,
+      upsertTrace: (data) =>
+        exporter.upsertSpan({
+          id: rootId,
+          traceId: state.traceId,
+          name: data.name,
+          input: data.input,
+          output: data.output,
+          metadata: data.tags ? { ...data.metadata, tags: data.tags } : data.metadata,
+        }),
+      upsertGeneration: (data) => exporter.upsertGeneration(nest(data)),
+      upsertSpan: (data) => exporter.upsertSpan(nest(data)),
+    });
+  }
+
+  const langfuseSessionId = state.langfuseSessionId;
+  if (langfuseSessionId) {
+    return TraceExporter.of({
+      ...exporter,
+      upsertTrace: (data) => exporter.upsertTrace({ ...data, sessionId: langfuseSessionId }),
+    });
+  }
+
+  return exporter;
+}
+
+/**
+ * Find the step of a message that was running at the given time.
+ * Parts keep their arrival timestamp through debounce, so this stays accurate.
+ */
+function findStepAt(state: TraceState, messageId: string, timestamp: number): StepInfo | undefined {
+  const steps = state.steps?.get(messageId);
+  if (!steps) return undefined;
+
+  return steps.find(
+    (step) => step.endTime !== undefined && timestamp >= step.startTime && timestamp <= step.endTime
+  );
+}
+
 /**
  * Handle chat.params event - store model parameters for the next generation.
  */
@@ -308,38 +848,72 @@ function handleChatParamsEvent(
 
 /**
  * Handle session.created and session.updated events.
+ *
+ * Subagent sessions (with a parent session) either get a root span inside the
+ * parent's trace ('nested') or their own trace in the parent's Langfuse
+ * session with links to the parent in its metadata ('linked').
  */
 function handleSessionEvent(
   sessionId: string,
   eventType: 'session.created' | 'session.updated',
   title: string | undefined,
+  parentId: string | undefined,
+  userId: string | undefined,
   sessionState: SessionState,
-  langfuseClient: LangfuseClient,
-  applyRedaction: (s: string | undefined) => string | undefined
+  exporter: TraceExporter,
+  applyRedaction: (s: string | undefined) => string | undefined,
+  subagentTraces: SubagentTraceMode
 ): Effect.Effect<void, never, never> {
   return Effect.gen(function* () {
-    const traceId = sessionToUUID(sessionId);
-
     const existing = yield* sessionState.get(sessionId);
 
     if (!existing) {
+      const parent = parentId ? yield* sessionState.get(parentId) : undefined;
+      const parentTraceId = parent?.traceId ?? (parentId ? sessionToUUID(parentId) : undefined);
+      const nested = parentId !== undefined && subagentTraces === 'nested';
+
       const traceState: TraceState = {
-        traceId,
+        traceId: nested && parentTraceId ? parentTraceId : sessionToUUID(sessionId),
         sessionId,
         title: title || 'OpenCode Session',
         createdAt: Date.now(),
         messages: new Map(),
         spans: new Map(),
+        parentSessionId: parentId,
+        rootObservationId: nested ? subagentObservationId(sessionId) : undefined,
+        langfuseSessionId:
+          parentId && !nested ? (parent?.langfuseSessionId ?? parentId) : undefined,
       };
       yield* sessionState.set(sessionId, traceState);
 
-      yield* langfuseClient
-        .createTrace({
-          id: traceId,
-          sessionId,
-          name: applyRedaction(traceState.title) || 'OpenCode Session',
-        })
-        .pipe(Effect.catchAll(() => Effect.void));
+      const name = traceName(traceState, applyRedaction);
+
+      if (traceState.rootObservationId) {
+        // Nests under the parent's own root span when the parent is a subagent too
+        yield* exporter
+          .upsertSpan({
+            id: traceState.rootObservationId,
+            traceId: traceState.traceId,
+            parentObservationId: parent?.rootObservationId,
+            name,
+            metadata: { session_id: sessionId, parent_session_id: parentId ?? null },
+            startTime: new Date(traceState.createdAt),
+          })
+          .pipe(Effect.catchAll(() => Effect.void));
+      } else {
+        yield* exporterForSession(exporter, traceState)
+          .upsertTrace({
+            id: traceState.traceId,
+            sessionId,
+            name,
+            userId,
+            metadata:
+              parentId && parentTraceId
+                ? { parent_session_id: parentId, parent_trace_id: parentTraceId }
+                : undefined,
+          })
+          .pipe(Effect.catchAll(() => Effect.void));
+      }
     } else if (eventType === 'session.updated' && title && title !== existing.title) {
       // Update local state
       yield* sessionState.update(sessionId, (state) => ({
@@ -347,10 +921,10 @@ function handleSessionEvent(
         title: title,
       }));
 
-      // Update the Langfuse trace with the new title
-      yield* langfuseClient
-        .createTrace({
-          id: traceId,
+      // Update the trace with the new title
+      yield* exporterForSession(exporter, existing)
+        .upsertTrace({
+          id: existing.traceId,
           sessionId,
           name: applyRedaction(title) || existing.title,
         })
@@ -359,16 +933,84 @@ function handleSessionEvent(
   });
 }
 
+/**
+ * Whether an event is a part that can only be handled once its message is
+ * registered (text, reasoning and tool parts; steps only update state).
+ */
+function needsMessage(event: PluginEvent): event is MessagePartEvent {
+  return (
+    event.type === 'message.part.updated' &&
+    event.partType !== 'step-start' &&
+    event.partType !== 'step-finish'
+  );
+}
+
+/**
+ * Whether an event creates, renames or deletes a session (and so never needs
+ * session state synthesized for it).
+ */
+function isSessionLifecycleEvent(event: PluginEvent): boolean {
+  return (
+    event.type === 'session.created' ||
+    event.type === 'session.updated' ||
+    event.type === 'session.delete'
+  );
+}
+
+/**
+ * Create the trace for a session whose session.created was never seen.
+ *
+ * The trace ID is derived from the session ID, so a resumed session keeps
+ * using the trace it had before. The title and parent session are looked up
+ * from OpenCode when a SessionLookup is available, so a subagent session is
+ * still nested or linked under its parent.
+ */
+function ensureSessionState(
+  sessionId: string,
+  userId: string | undefined,
+  sessionState: SessionState,
+  exporter: TraceExporter,
+  sessionLookup: Option.Option<SessionLookup>,
+  applyRedaction: (s: string | undefined) => string | undefined,
+  subagentTraces: SubagentTraceMode
+): Effect.Effect<void, never, never> {
+  return Effect.gen(function* () {
+    if (yield* sessionState.has(sessionId)) return;
+
+    const session = Option.isSome(sessionLookup)
+      ? yield* sessionLookup.value.getSession(sessionId)
+      : undefined;
+
+    yield* handleSessionEvent(
+      sessionId,
+      'session.created',
+      session?.title,
+      session?.parentId,
+      userId,
+      sessionState,
+      exporter,
+      applyRedaction,
+      subagentTraces
+    );
+
+    yield* Effect.logInfo('Created trace for session without session.created', {
+      sessionId,
+      titleFound: session?.title !== undefined,
+      parentSessionId: session?.parentId,
+    });
+  });
+}
+
 /**
  * Handle session.delete event.
  */
 function handleSessionDelete(
   sessionId: string,
   sessionState: SessionState,
-  langfuseClient: LangfuseClient
+  exporter: TraceExporter
 ): Effect.Effect<void, never, never> {
   return Effect.gen(function* () {
-    yield* langfuseClient.flush.pipe(Effect.catchAll(() => Effect.void));
+    yield* exporter.flush.pipe(Effect.catchAll(() => Effect.void));
     yield* sessionState.delete(sessionId);
   });
 }
@@ -377,29 +1019,26 @@ function handleSessionDelete(
  * Handle message.updated events.
  *
  * This registers the message in our state (for later part lookups) and creates
- * the appropriate Langfuse observation (span for user, generation for assistant).
- * The actual content comes from message.part.updated events.
+ * the appropriate observation (span for user, generation for assistant).
+ * Assistant messages that were split into steps also get one child generation
+ * per step. The actual content comes from message.part.updated events.
  */
 function handleMessageEvent(
   sessionId: string,
   messageId: string,
   role: 'user' | 'assistant',
   model: string | undefined,
-  usage:
-    | {
-        promptTokens?: number;
-        completionTokens?: number;
-        totalTokens?: number;
-        reasoningTokens?: number;
-        cacheReadTokens?: number;
-        cacheWriteTokens?: number;
-      }
-    | undefined,
+  usage: TokenUsage | undefined,
   parentId: string | undefined,
   cost: number | undefined,
   time: { created: number; completed?: number } | undefined,
+  summary: boolean | undefined,
+  errorName: string | undefined,
   sessionState: SessionState,
-  langfuseClient: LangfuseClient
+  exporter: TraceExporter,
+  applyRedaction: (s: string | undefined) => string | undefined,
+  inputTurns: number,
+  pricing: PricingCatalog
 ): Effect.Effect<void, never, never> {
   return Effect.gen(function* () {
     const state = yield* sessionState.get(sessionId);
@@ -414,8 +1053,8 @@ function handleMessageEvent(
       return;
     }
 
-    // Generate a unique observation ID for this message
-    const observationId = `${messageId}-${Date.now()}`;
+    // Deterministic so re-processing the message upserts the same observation
+    const observationId = generateObservationId(sessionId, 'message', messageId);
 
     // Resolve parent observation ID from parent message ID
     let parentObservationId: string | undefined;
@@ -426,10 +1065,18 @@ function handleMessageEvent(
       }
     }
 
-    // Create the appropriate Langfuse observation
-    if (role === 'user') {
-      yield* langfuseClient
-        .createSpan({
+    // Compaction summaries nest under the in-flight compaction span
+    if (summary && state.pendingCompaction) {
+      parentObservationId = state.pendingCompaction.spanId;
+    }
+
+    // Estimated from the pricing catalog when OpenCode reports no cost
+    const messageCost = role === 'assistant' ? resolveCost(pricing, model, cost, usage) : undefined;
+
+    // Create the appropriate observation
+    if (role === 'user') {
+      yield* exporter
+        .upsertSpan({
           id: observationId,
           traceId: state.traceId,
           parentObservationId,
@@ -437,26 +1084,14 @@ function handleMessageEvent(
         })
         .pipe(Effect.catchAll(() => Effect.void));
     } else {
-      // Build usageDetails with all token types
-      const usageDetails: Record<string, number> = {};
-      if (usage) {
-        if (usage.promptTokens !== undefined) usageDetails.input = usage.promptTokens;
-        if (usage.completionTokens !== undefined) usageDetails.output = usage.completionTokens;
-        if (usage.totalTokens !== undefined) usageDetails.total = usage.totalTokens;
-        if (usage.reasoningTokens !== undefined && usage.reasoningTokens > 0) {
-          usageDetails.reasoning = usage.reasoningTokens;
-        }
-        if (usage.cacheReadTokens !== undefined && usage.cacheReadTokens > 0) {
-          usageDetails.cache_read = usage.cacheReadTokens;
-        }
-        if (usage.cacheWriteTokens !== undefined && usage.cacheWriteTokens > 0) {
-          usageDetails.cache_write = usage.cacheWriteTokens;
-        }
-      }
+      // When the message was split into steps, usage and cost live on the per-step
+      // generations; repeating them here would double count in trace totals.
+      const steps = state.steps?.get(messageId) ?? [];
+      const finishedSteps = steps.filter((step) => step.endTime !== undefined);
+      const hasSteps = finishedSteps.length > 0;
 
-      // Build costDetails
-      const costDetails: Record<string, number> | undefined =
-        cost !== undefined && cost > 0 ? { total: cost } : undefined;
+      const usageDetails = hasSteps ? undefined : buildUsageDetails(usage);
+      const costDetails = hasSteps ? undefined : messageCost?.details;
 
       // Convert timestamps to Date objects
       const startTime = time?.created ? new Date(time.created) : undefined;
@@ -479,32 +1114,128 @@ function handleMessageEvent(
           modelParameters.stop = params.stop.join(',');
       }
 
-      yield* langfuseClient
-        .createGeneration({
+      const metadata: Record<string, string | number> = {};
+      // Lets later generations be correlated with how often history was compacted
+      if (state.compactionCount) metadata.compactions = state.compactionCount;
+      if (messageCost) metadata.cost_source = messageCost.source;
+      if (hasSteps) {
+        metadata.steps = finishedSteps.length;
+        const totalCost = messageCost?.details.total ?? cost;
+        if (totalCost !== undefined) metadata.total_cost = totalCost;
+      }
+
+      yield* exporter
+        .upsertGeneration({
           id: observationId,
           traceId: state.traceId,
           parentObservationId,
-          name: 'assistant-response',
+          name: summary ? 'compaction-summary' : 'assistant-response',
           model,
+          input: parentId ? buildGenerationInput(state, parentId, inputTurns) : undefined,
           modelParameters:
             modelParameters && Object.keys(modelParameters).length > 0
               ? modelParameters
               : undefined,
-          usageDetails: Object.keys(usageDetails).length > 0 ? usageDetails : undefined,
+          usageDetails,
           costDetails,
+          metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
           startTime,
           endTime,
         })
         .pipe(Effect.catchAll(() => Effect.void));
+
+      // One generation per LLM call, nested under the message generation
+      for (const step of finishedSteps) {
+        const stepCost = resolveCost(pricing, model, step.cost, step.usage);
+        yield* exporter
+          .upsertGeneration({
+            id: stepObservationId(sessionId, messageId, step.index),
+            traceId: state.traceId,
+            parentObservationId: observationId,
+            name: 'llm-step',
+            model,
+            usageDetails: buildUsageDetails(step.usage),
+            costDetails: stepCost?.details,
+            metadata: {
+              step_index: step.index,
+              finish_reason: step.finishReason ?? null,
+              ...(stepCost ? { cost_source: stepCost.source } : {}),
+            },
+            startTime: new Date(step.startTime),
+            endTime: step.endTime !== undefined ? new Date(step.endTime) : undefined,
+          })
+          .pipe(Effect.catchAll(() => Effect.void));
+      }
+
+      // A session.error raised while this message was in flight belongs to it
+      const errorSpanId = state.spans.get(ERROR_SPAN_KEY);
+      if (errorSpanId && errorName) {
+        yield* exporter
+          .upsertSpan({
+            id: errorSpanId,
+            traceId: state.traceId,
+            parentObservationId: observationId,
+            name: 'session-error',
+            metadata: { message_id: messageId },
+          })
+          .pipe(Effect.catchAll(() => Effect.void));
+      }
+    }
+
+    // Models and providers used become trace tags
+    const tags = role === 'assistant' ? mergeTraceTags(state, modelTags(model)) : undefined;
+    if (tags) {
+      yield* exporter
+        .upsertTrace({ id: state.traceId, sessionId, name: traceName(state, applyRedaction), tags })
+        .pipe(Effect.catchAll(() => Effect.void));
     }
 
     // Register message in state and clear pending model params (they've been consumed)
     const newMessages = new Map(state.messages);
-    newMessages.set(messageId, { observationId, role, model, parentObservationId });
+    newMessages.set(messageId, {
+      observationId,
+      role,
+      model,
+      parentObservationId,
+      summary,
+      ...(errorName ? { failed: true } : {}),
+    });
+    const withTotals = (s: TraceState): TraceState =>
+      role === 'assistant'
+        ? updateTotals(s, (totals) => ({
+            ...totals,
+            cost: totals.cost + (messageCost?.details.total ?? 0),
+            inputTokens: totals.inputTokens + (usage?.promptTokens ?? 0),
+            outputTokens: totals.outputTokens + (usage?.completionTokens ?? 0),
+            reasoningTokens: totals.reasoningTokens + (usage?.reasoningTokens ?? 0),
+            cacheReadTokens: totals.cacheReadTokens + (usage?.cacheReadTokens ?? 0),
+            cacheWriteTokens: totals.cacheWriteTokens + (usage?.cacheWriteTokens ?? 0),
+            generations: totals.generations + 1,
+          }))
+        : s;
+    // The next assistant message settles any error waiting for its message
+    const withoutErrorSpan = (s: TraceState): TraceState => {
+      if (role !== 'assistant' || !s.spans.has(ERROR_SPAN_KEY)) return s;
+      const spans = new Map(s.spans);
+      spans.delete(ERROR_SPAN_KEY);
+      return { ...s, spans };
+    };
     yield* sessionState.update(sessionId, (s) => ({
-      ...s,
+      ...withTotals(withoutErrorSpan(s)),
       messages: newMessages,
+      ...(tags ? { tags } : {}),
       pendingModelParams: undefined, // Clear after consumption
+      ...(role === 'assistant' && !summary && usage?.promptTokens !== undefined
+        ? { lastContextTokens: contextTokens(usage) }
+        : {}),
+      ...(summary && s.pendingCompaction
+        ? {
+            pendingCompaction: {
+              ...s.pendingCompaction,
+              tokensAfter: usage?.completionTokens,
+            },
+          }
+        : {}),
     }));
   });
 }
@@ -513,24 +1244,21 @@ function handleMessageEvent(
  * Handle message.part.updated events.
  *
  * Uses the messageId to look up the parent observation and attach content appropriately:
- * - For user messages: update the span's input with the text
+ * - For user messages: update the span's input with the text, and the input of
+ *   generations answering it (for replies registered before the text arrived)
  * - For assistant messages: update the generation's output with the text
  * - For tool calls: create child spans under the parent message
  */
 function handleMessagePartEvent(
-  sessionId: string,
-  messageId: string,
-  partType: 'text' | 'tool-call',
-  textContent: string | undefined,
-  toolName: string | undefined,
-  toolInput: unknown,
-  toolOutput: unknown,
+  event: MessagePartEvent,
   sessionState: SessionState,
-  langfuseClient: LangfuseClient,
+  exporter: TraceExporter,
   applyRedaction: (s: string | undefined) => string | undefined,
-  applyObjectRedaction: <T>(obj: T) => T
+  applyObjectRedaction: <T>(obj: T) => T,
+  inputTurns: number
 ): Effect.Effect<void, never, never> {
   return Effect.gen(function* () {
+    const { sessionId, messageId, partType, timestamp } = event;
     const state = yield* sessionState.get(sessionId);
     if (!state) {
       yield* Effect.logWarning('No session state for message part', { sessionId, messageId });
@@ -544,124 +1272,299 @@ function handleMessagePartEvent(
       return;
     }
 
-    if (partType === 'text' && textContent) {
+    if (partType === 'text' && event.content) {
       // Text content - update the parent observation
+      const text = applyRedaction(event.content);
+
+      // The first prompt of the session becomes the trace input
+      const isFirstPrompt = messageInfo.role === 'user' && !state.hasTraceInput;
+
+      // Keep the text for the inputs of later generations
+      const updated =
+        messageInfo.role === 'user' || inputTurns > 1
+          ? yield* sessionState.update(sessionId, (s) => ({
+              ...s,
+              messages: new Map(s.messages).set(messageId, { ...messageInfo, text }),
+              hasTraceInput: s.hasTraceInput || isFirstPrompt,
+            }))
+          : undefined;
+
+      if (isFirstPrompt) {
+        yield* exporter
+          .upsertTrace({
+            id: state.traceId,
+            sessionId,
+            name: traceName(state, applyRedaction),
+            input: text,
+          })
+          .pipe(Effect.catchAll(() => Effect.void));
+      }
+
       if (messageInfo.role === 'user') {
         // Update user span with input text
-        yield* langfuseClient
-          .createSpan({
+        yield* exporter
+          .upsertSpan({
             id: messageInfo.observationId,
             traceId: state.traceId,
             name: 'user-message',
-            input: applyRedaction(textContent),
+            input: text,
           })
           .pipe(Effect.catchAll(() => Effect.void));
+
+        // Replies registered before this text arrived are missing their input
+        for (const reply of (updated ?? state).messages.values()) {
+          if (reply.role !== 'assistant') continue;
+          if (reply.parentObservationId !== messageInfo.observationId) continue;
+          yield* exporter
+            .upsertGeneration({
+              id: reply.observationId,
+              traceId: state.traceId,
+              name: reply.summary ? 'compaction-summary' : 'assistant-response',
+              input: buildGenerationInput(updated ?? state, messageId, inputTurns),
+            })
+            .pipe(Effect.catchAll(() => Effect.void));
+        }
       } else {
         // Update assistant generation with output text
-        yield* langfuseClient
-          .createGeneration({
+        yield* exporter
+          .upsertGeneration({
             id: messageInfo.observationId,
             traceId: state.traceId,
-            name: 'assistant-response',
-            output: applyRedaction(textContent),
+            name: messageInfo.summary ? 'compaction-summary' : 'assistant-response',
+            output: text,
           })
           .pipe(Effect.catchAll(() => Effect.void));
+
+        // The trace output follows the latest answer
+        if (!messageInfo.summary) {
+          yield* exporter
+            .upsertTrace({
+              id: state.traceId,
+              sessionId,
+              name: traceName(state, applyRedaction),
+              output: text,
+            })
+            .pipe(Effect.catchAll(() => Effect.void));
+        }
+
+        // Also attach the text to the step that produced it
+        const step = findStepAt(state, messageId, timestamp);
+        if (step) {
+          yield* exporter
+            .upsertGeneration({
+              id: stepObservationId(sessionId, messageId, step.index),
+              traceId: state.traceId,
+              name: 'llm-step',
+              output: text,
+            })
+            .pipe(Effect.catchAll(() => Effect.void));
+        }
       }
       return;
     }
 
     if (partType === 'tool-call') {
+      // Nest the tool under the step that invoked it, falling back to the message
+      const step = findStepAt(state, messageId, timestamp);
+      const parentObservationId = step
+        ? stepObservationId(sessionId, messageId, step.index)
+        : messageInfo.observationId;
+
+      const isError = event.toolStatus === 'error';
+      const errorMessage = isError ? applyRedaction(event.toolError) || 'Tool failed' : undefined;
+
+      const metadata: Record<string, string | number | boolean | null> = {
+        tool: event.toolName ?? null,
+        status: event.toolStatus ?? null,
+      };
+      if (event.callId) metadata.call_id = event.callId;
+      if (event.toolTitle) metadata.title = applyRedaction(event.toolTitle) ?? null;
+
+      // Link the subagent session the tool spawned (task tool)
+      const toolObservationId = generateObservationId(
+        sessionId,
+        'tool',
+        messageId,
+        event.callId ?? event.partId
+      );
+      const child = event.childSessionId
+        ? yield* sessionState.get(event.childSessionId)
+        : undefined;
+      if (event.childSessionId) {
+        metadata.child_session_id = event.childSessionId;
+        if (child && !child.rootObservationId) metadata.child_trace_id = child.traceId;
+      }
+
       // Tool calls arrive with both input and output when completed
-      yield* langfuseClient
-        .createSpan({
+      yield* exporter
+        .upsertSpan({
+          id: toolObservationId,
           traceId: state.traceId,
-          parentObservationId: messageInfo.observationId,
-          name: `tool-${toolName || 'unknown'}`,
-          input: applyObjectRedaction(toolInput),
-          output: applyObjectRedaction(toolOutput),
+          parentObservationId,
+          name: `tool-${event.toolName || 'unknown'}`,
+          input: applyObjectRedaction(event.toolInput),
+          output: applyObjectRedaction(event.toolOutput),
+          metadata,
+          startTime: event.time ? new Date(event.time.start) : undefined,
+          endTime: event.time?.end ? new Date(event.time.end) : undefined,
+          level: isError ? 'ERROR' : undefined,
+          statusMessage: errorMessage,
         })
         .pipe(Effect.catchAll(() => Effect.void));
+
+      // A nested subagent's root span moves under the tool call that spawned it
+      if (child?.rootObservationId) {
+        yield* exporter
+          .upsertSpan({
+            id: child.rootObservationId,
+            traceId: child.traceId,
+            parentObservationId: toolObservationId,
+            name: applyRedaction(child.title) || 'OpenCode Session',
+          })
+          .pipe(Effect.catchAll(() => Effect.void));
+      }
+
+      yield* sessionState.update(sessionId, (s) =>
+        updateTotals(s, (totals) => ({
+          ...totals,
+          toolCalls: totals.toolCalls + 1,
+          toolErrors: totals.toolErrors + (isError ? 1 : 0),
+        }))
+      );
     }
   });
 }
 
 /**
- * Handle tool.execute.before and tool.execute.after events.
+ * Handle step-start / step-finish parts.
+ *
+ * Steps only update state here. Assistant messages are registered once complete,
+ * so their per-step generations are emitted from handleMessageEvent.
  */
-function handleToolEvent(
-  sessionId: string,
-  eventType: 'tool.execute.before' | 'tool.execute.after',
-  toolName: string,
-  toolInput: unknown,
-  toolOutput: unknown,
-  error: string | undefined,
+function handleStepPartEvent(
+  event: MessagePartEvent,
+  sessionState: SessionState
+): Effect.Effect<void, never, never> {
+  return Effect.gen(function* () {
+    const { sessionId, messageId } = event;
+
+    const updated = yield* sessionState.update(sessionId, (state) => {
+      const steps = [...(state.steps?.get(messageId) ?? [])];
+      const last = steps[steps.length - 1];
+
+      if (event.partType === 'step-start') {
+        steps.push({ index: steps.length, startTime: event.timestamp });
+      } else if (last && last.endTime === undefined) {
+        steps[steps.length - 1] = {
+          ...last,
+          endTime: event.timestamp,
+          finishReason: event.finishReason,
+          cost: event.cost,
+          usage: event.usage,
+        };
+      } else {
+        // step-finish without a matching step-start (e.g. plugin started mid-message)
+        return state;
+      }
+
+      const allSteps = new Map(state.steps);
+      allSteps.set(messageId, steps);
+      return { ...state, steps: allSteps };
+    });
+
+    if (!updated) {
+      yield* Effect.logWarning('No session state for step part', { sessionId, messageId });
+      return;
+    }
+
+    yield* Effect.logDebug('Tracked step boundary', {
+      sessionId,
+      messageId,
+      partType: event.partType,
+    });
+  });
+}
+
+/**
+ * Handle reasoning parts - creates a `reasoning` child span under the assistant
+ * generation, timed from the part's own start/end.
+ */
+function handleReasoningPartEvent(
+  event: MessagePartEvent,
   sessionState: SessionState,
-  langfuseClient: LangfuseClient,
-  applyRedaction: (s: string | undefined) => string | undefined,
-  applyObjectRedaction: <T>(obj: T) => T
+  exporter: TraceExporter,
+  applyReasoningRedaction: (s: string | undefined) => string | undefined
 ): Effect.Effect<void, never, never> {
   return Effect.gen(function* () {
+    const { sessionId, messageId } = event;
     const state = yield* sessionState.get(sessionId);
     if (!state) {
-      yield* Effect.logWarning('No session state for tool event', { sessionId });
+      yield* Effect.logWarning('No session state for message part', { sessionId, messageId });
       return;
     }
 
-    if (eventType === 'tool.execute.before') {
-      yield* langfuseClient
-        .createSpan({
-          traceId: state.traceId,
-          name: `tool-${toolName}`,
-          input: applyObjectRedaction(toolInput),
-          startTime: new Date(),
-        })
-        .pipe(Effect.catchAll(() => Effect.void));
-    } else {
-      const metadata = error ? { error: applyRedaction(error) || null } : undefined;
-      yield* langfuseClient
-        .createSpan({
-          traceId: state.traceId,
-          name: `tool-${toolName}`,
-          output: applyObjectRedaction(toolOutput),
-          endTime: new Date(),
-          metadata,
-        })
-        .pipe(Effect.catchAll(() => Effect.void));
+    const messageInfo = state.messages.get(messageId);
+    if (!messageInfo) {
+      yield* Effect.logWarning('No message info for part', {
+        sessionId,
+        messageId,
+        partType: event.partType,
+      });
+      return;
     }
+
+    const output = applyReasoningRedaction(event.content);
+
+    yield* exporter
+      .upsertSpan({
+        id: generateObservationId(sessionId, 'reasoning', messageId, event.partId),
+        traceId: state.traceId,
+        parentObservationId: messageInfo.observationId,
+        name: 'reasoning',
+        output,
+        metadata: {
+          content_excluded: output === undefined,
+          characters: event.content?.length ?? 0,
+        },
+        startTime: event.time ? new Date(event.time.start) : undefined,
+        endTime: event.time?.end ? new Date(event.time.end) : undefined,
+      })
+      .pipe(Effect.catchAll(() => Effect.void));
   });
 }
 
 /**
  * Handle session.diff event - captures file changes made during the session.
- * Creates a span summarizing the file changes for this message.
+ * The diff covers the whole session so far; OpenCode publishes it after an
+ * assistant message completes, so the span summarizing it goes under the
+ * latest assistant message.
  */
 function handleSessionDiffEvent(
-  sessionId: string,
-  messageId: string,
-  diffs: readonly FileDiff[],
+  event: SessionDiffEvent,
   sessionState: SessionState,
-  langfuseClient: LangfuseClient
+  exporter: TraceExporter
 ): Effect.Effect<void, never, never> {
   return Effect.gen(function* () {
+    const { sessionId, diffs } = event;
     const state = yield* sessionState.get(sessionId);
     if (!state) {
       yield* Effect.logWarning('No session state for session.diff', { sessionId });
       return;
     }
 
-    // Find the parent message observation to attach the diff span to
-    const messageInfo = state.messages.get(messageId);
-    const parentObservationId = messageInfo?.observationId;
+    const latest = latestAssistantMessage(state);
+    const messageId = latest?.[0];
 
     // Calculate summary stats
     const totalAdditions = diffs.reduce((sum, d) => sum + d.additions, 0);
     const totalDeletions = diffs.reduce((sum, d) => sum + d.deletions, 0);
     const filesChanged = diffs.map((d) => d.file);
 
-    yield* langfuseClient
-      .createSpan({
+    yield* exporter
+      .upsertSpan({
+        id: generateObservationId(sessionId, 'file-changes', messageId ?? event.timestamp),
         traceId: state.traceId,
-        parentObservationId,
+        parentObservationId: latest?.[1].observationId,
         name: 'file-changes',
         metadata: {
           files_changed: filesChanged.length,
@@ -672,6 +1575,13 @@ function handleSessionDiffEvent(
       })
       .pipe(Effect.catchAll(() => Effect.void));
 
+    yield* sessionState.update(sessionId, (s) =>
+      updateTotals(s, (totals) => ({
+        ...totals,
+        changedFiles: [...new Set([...totals.changedFiles, ...filesChanged])],
+      }))
+    );
+
     yield* Effect.logDebug('Created file-changes span', {
       sessionId,
       messageId,
@@ -680,6 +1590,361 @@ function handleSessionDiffEvent(
   });
 }
 
+/**
+ * Handle session.error event - records an unrecoverable session error.
+ *
+ * The event names no message. OpenCode raises it before the failing assistant
+ * message completes, so the ERROR-level span starts at the trace root and is
+ * moved under the failing generation once that message arrives with its error
+ * (see handleMessageEvent). When the latest assistant message already failed,
+ * the span goes under it directly.
+ */
+function handleSessionErrorEvent(
+  event: SessionErrorEvent,
+  sessionState: SessionState,
+  exporter: TraceExporter,
+  applyRedaction: (s: string | undefined) => string | undefined
+): Effect.Effect<void, never, never> {
+  return Effect.gen(function* () {
+    const state = yield* sessionState.get(event.sessionId);
+    if (!state) {
+      yield* Effect.logWarning('No session state for session.error', {
+        sessionId: event.sessionId,
+      });
+      return;
+    }
+
+    const latest = latestAssistantMessage(state);
+    const failed = latest?.[1].failed ? latest : undefined;
+    const errorMessage = applyRedaction(event.errorMessage);
+    const occurredAt = new Date(event.timestamp);
+    const spanId = generateObservationId(
+      event.sessionId,
+      'session-error',
+      failed?.[0] ?? event.timestamp
+    );
+
+    const metadata: Record<string, string | number | boolean | null> = {
+      error_name: event.errorName,
+    };
+    if (errorMessage) metadata.error_message = errorMessage;
+    if (event.providerId) metadata.provider_id = event.providerId;
+    if (event.statusCode !== undefined) metadata.status_code = event.statusCode;
+    if (event.isRetryable !== undefined) metadata.is_retryable = event.isRetryable;
+    if (failed) metadata.message_id = failed[0];
+
+    yield* exporter
+      .upsertSpan({
+        id: spanId,
+        traceId: state.traceId,
+        parentObservationId: failed?.[1].observationId,
+        name: 'session-error',
+        level: 'ERROR',
+        statusMessage: errorMessage || event.errorName,
+        metadata,
+        startTime: occurredAt,
+        endTime: occurredAt,
+      })
+      .pipe(Effect.catchAll(() => Effect.void));
+
+    // Linked to the failing generation when its message completes
+    if (!failed) {
+      yield* sessionState.update(event.sessionId, (s) => {
+        const spans = new Map(s.spans);
+        spans.set(ERROR_SPAN_KEY, spanId);
+        return { ...s, spans };
+      });
+    }
+
+    yield* Effect.logDebug('Created session-error span', {
+      sessionId: event.sessionId,
+      messageId: failed?.[0],
+      errorName: event.errorName,
+    });
+  });
+}
+
+/**
+ * Handle session.status event - tracks when the agent is working.
+ *
+ * - busy: opens an `agent-busy` span (unless one is already open)
+ * - retry: records a `provider-retry` child event under the busy span
+ * - idle: closes the open busy span
+ */
+function handleSessionStatusEvent(
+  event: SessionStatusEvent,
+  sessionState: SessionState,
+  exporter: TraceExporter,
+  applyRedaction: (s: string | undefined) => string | undefined
+): Effect.Effect<void, never, never> {
+  return Effect.gen(function* () {
+    const state = yield* sessionState.get(event.sessionId);
+    if (!state) {
+      yield* Effect.logWarning('No session state for session.status', {
+        sessionId: event.sessionId,
+      });
+      return;
+    }
+
+    const occurredAt = new Date(event.timestamp);
+    let busySpanId = state.spans.get(BUSY_SPAN_KEY);
+
+    if (event.status === 'idle') {
+      if (!busySpanId) {
+        return;
+      }
+
+      yield* exporter
+        .upsertSpan({
+          id: busySpanId,
+          traceId: state.traceId,
+          name: 'agent-busy',
+          endTime: occurredAt,
+        })
+        .pipe(Effect.catchAll(() => Effect.void));
+
+      yield* sessionState.update(event.sessionId, (s) => {
+        const spans = new Map(s.spans);
+        spans.delete(BUSY_SPAN_KEY);
+        return { ...s, spans };
+      });
+
+      yield* Effect.logDebug('Closed agent-busy span', { sessionId: event.sessionId });
+      return;
+    }
+
+    // Both busy and retry mean the agent is working - make sure a busy span is open
+    if (!busySpanId) {
+      const spanId = generateObservationId(event.sessionId, 'agent-busy', event.timestamp);
+      busySpanId = spanId;
+
+      yield* exporter
+        .upsertSpan({
+          id: spanId,
+          traceId: state.traceId,
+          name: 'agent-busy',
+          startTime: occurredAt,
+        })
+        .pipe(Effect.catchAll(() => Effect.void));
+
+      yield* sessionState.update(event.sessionId, (s) => {
+        const spans = new Map(s.spans);
+        spans.set(BUSY_SPAN_KEY, spanId);
+        return { ...s, spans };
+      });
+
+      yield* Effect.logDebug('Opened agent-busy span', { sessionId: event.sessionId });
+    }
+
+    if (event.status === 'retry') {
+      const metadata: Record<string, string | number | boolean | null> = {};
+      if (event.attempt !== undefined) metadata.attempt = event.attempt;
+      if (event.nextRetryAt !== undefined) {
+        metadata.next_retry_at = new Date(event.nextRetryAt).toISOString();
+        metadata.retry_delay_ms = Math.max(0, event.nextRetryAt - event.timestamp);
+      }
+
+      yield* exporter
+        .upsertSpan({
+          id: generateObservationId(
+            event.sessionId,
+            'provider-retry',
+            busySpanId,
+            event.attempt ?? event.timestamp
+          ),
+          traceId: state.traceId,
+          parentObservationId: busySpanId,
+          name: 'provider-retry',
+          level: 'WARNING',
+          statusMessage: applyRedaction(event.reason),
+          metadata,
+          startTime: occurredAt,
+          endTime: event.nextRetryAt ? new Date(event.nextRetryAt) : occurredAt,
+        })
+        .pipe(Effect.catchAll(() => Effect.void));
+
+      yield* Effect.logDebug('Recorded provider retry', {
+        sessionId: event.sessionId,
+        attempt: event.attempt,
+      });
+    }
+  });
+}
+
+/**
+ * Handle the compacting hook - opens a `compaction` span before history is summarized.
+ * The prompt and context go through the same redaction as message content.
+ */
+function handleSessionCompactingEvent(
+  event: SessionCompactingEvent,
+  sessionState: SessionState,
+  exporter: TraceExporter,
+  applyRedaction: (s: string | undefined) => string | undefined
+): Effect.Effect<void, never, never> {
+  return Effect.gen(function* () {
+    const state = yield* sessionState.get(event.sessionId);
+    if (!state) {
+      yield* Effect.logWarning('No session state for session.compacting', {
+        sessionId: event.sessionId,
+      });
+      return;
+    }
+
+    const spanId = generateObservationId(
+      event.sessionId,
+      'compaction',
+      (state.compactionCount ?? 0) + 1
+    );
+    const tokensBefore = state.lastContextTokens;
+
+    yield* exporter
+      .upsertSpan({
+        id: spanId,
+        traceId: state.traceId,
+        name: 'compaction',
+        input: {
+          prompt: applyRedaction(event.prompt) ?? null,
+          context: event.context.map((c) => applyRedaction(c) ?? ''),
+        },
+        metadata: tokensBefore !== undefined ? { tokens_before: tokensBefore } : undefined,
+        startTime: new Date(event.timestamp),
+      })
+      .pipe(Effect.catchAll(() => Effect.void));
+
+    yield* sessionState.update(event.sessionId, (s) => ({
+      ...s,
+      pendingCompaction: { spanId, tokensBefore },
+    }));
+
+    yield* Effect.logDebug('Opened compaction span', { sessionId: event.sessionId, spanId });
+  });
+}
+
+/**
+ * Handle session.compacted event - closes the compaction span with before/after
+ * token counts and bumps the trace-level compaction counter.
+ */
+function handleSessionCompactedEvent(
+  event: SessionCompactedEvent,
+  sessionState: SessionState,
+  exporter: TraceExporter,
+  applyRedaction: (s: string | undefined) => string | undefined
+): Effect.Effect<void, never, never> {
+  return Effect.gen(function* () {
+    const state = yield* sessionState.get(event.sessionId);
+    if (!state) {
+      yield* Effect.logWarning('No session state for session.compacted', {
+        sessionId: event.sessionId,
+      });
+      return;
+    }
+
+    const compactedAt = new Date(event.timestamp);
+    // Without the hook we never saw the start; record a point-in-time span instead
+    const pending = state.pendingCompaction ?? {
+      spanId: generateObservationId(
+        event.sessionId,
+        'compaction',
+        (state.compactionCount ?? 0) + 1
+      ),
+      tokensBefore: state.lastContextTokens,
+    };
+    const compactionCount = (state.compactionCount ?? 0) + 1;
+
+    const metadata: Record<string, number> = { compaction_number: compactionCount };
+    if (pending.tokensBefore !== undefined) metadata.tokens_before = pending.tokensBefore;
+    if (pending.tokensAfter !== undefined) metadata.tokens_after = pending.tokensAfter;
+    if (pending.tokensBefore !== undefined && pending.tokensAfter !== undefined) {
+      metadata.tokens_saved = pending.tokensBefore - pending.tokensAfter;
+    }
+
+    yield* exporter
+      .upsertSpan({
+        id: pending.spanId,
+        traceId: state.traceId,
+        name: 'compaction',
+        metadata,
+        startTime: state.pendingCompaction ? undefined : compactedAt,
+        endTime: compactedAt,
+      })
+      .pipe(Effect.catchAll(() => Effect.void));
+
+    yield* sessionState.update(event.sessionId, (s) => ({
+      ...s,
+      pendingCompaction: undefined,
+      compactionCount,
+    }));
+
+    yield* exporter
+      .upsertTrace({
+        id: state.traceId,
+        sessionId: event.sessionId,
+        name: traceName(state, applyRedaction),
+        metadata: { compactions: compactionCount },
+      })
+      .pipe(Effect.catchAll(() => Effect.void));
+
+    yield* Effect.logDebug('Closed compaction span', {
+      sessionId: event.sessionId,
+      compactionCount,
+    });
+  });
+}
+
+/**
+ * Record events the queue dropped for a session as trace metadata.
+ * Only updates the trace when the count changed since the last update.
+ */
+function handleDroppedEvents(
+  sessionId: string,
+  eventQueue: EventQueue,
+  sessionState: SessionState,
+  exporter: TraceExporter,
+  applyRedaction: (s: string | undefined) => string | undefined
+): Effect.Effect<void, never, never> {
+  return Effect.gen(function* () {
+    const dropped = yield* eventQueue.dropped(sessionId);
+    const state = yield* sessionState.get(sessionId);
+    if (!state || dropped <= (state.droppedEvents ?? 0)) return;
+
+    yield* sessionState.update(sessionId, (s) => ({ ...s, droppedEvents: dropped }));
+
+    yield* exporter
+      .upsertTrace({
+        id: state.traceId,
+        sessionId,
+        name: traceName(state, applyRedaction),
+        metadata: { dropped_events: dropped },
+      })
+      .pipe(Effect.catchAll(() => Effect.void));
+  });
+}
+
+/**
+ * Record a session's cost, token and tool totals as trace metadata,
+ * so traces can be sorted by them in Langfuse.
+ */
+function handleSessionTotals(
+  sessionId: string,
+  sessionState: SessionState,
+  exporter: TraceExporter,
+  applyRedaction: (s: string | undefined) => string | undefined
+): Effect.Effect<void, never, never> {
+  return Effect.gen(function* () {
+    const state = yield* sessionState.get(sessionId);
+    if (!state?.totals) return;
+
+    yield* exporterForSession(exporter, state)
+      .upsertTrace({
+        id: state.traceId,
+        sessionId,
+        name: traceName(state, applyRedaction),
+        metadata: buildTotalsMetadata(state.totals),
+      })
+      .pipe(Effect.catchAll(() => Effect.void));
+  });
+}
+
 /**
  * Handle chat.message event - captures user message metadata before processing.
  * This is called via the chat.message hook before the message is saved.
@@ -690,7 +1955,8 @@ function handleChatMessageEvent(
   model: string,
   agent: string,
   sessionState: SessionState,
-  langfuseClient: LangfuseClient
+  exporter: TraceExporter,
+  applyRedaction: (s: string | undefined) => string | undefined
 ): Effect.Effect<void, never, never> {
   return Effect.gen(function* () {
     const state = yield* sessionState.get(sessionId);
@@ -699,16 +1965,22 @@ function handleChatMessageEvent(
       return;
     }
 
+    const tags = mergeTraceTags(state, [`agent:${agent}`, ...modelTags(model)]);
+    if (tags) {
+      yield* sessionState.update(sessionId, (s) => ({ ...s, tags }));
+    }
+
     // Update trace with metadata about the interaction
-    yield* langfuseClient
-      .createTrace({
+    yield* exporter
+      .upsertTrace({
         id: state.traceId,
         sessionId,
-        name: state.title,
+        name: traceName(state, applyRedaction),
         metadata: {
           last_model: model,
           last_agent: agent,
         },
+        tags: tags ?? (state.tags ? [...state.tags] : undefined),
       })
       .pipe(Effect.catchAll(() => Effect.void));
 
@@ -739,3 +2011,40 @@ export const forkEventProcessor = Effect.gen(function* () {
   const fiber = yield* Stream.runDrain(stream).pipe(Effect.fork);
   return fiber;
 });
+
+/**
+ * Gracefully stop a running event processor.
+ *
+ * Waits for the processor to take everything already queued, closes the queue,
+ * lets the processor drain its debounced events, then flushes the exporters.
+ * Both the drain and the flush are bounded so shutdown cannot hang.
+ */
+export const drainEventProcessor = <E>(processorFiber: Fiber.Fiber<void, E>) =>
+  Effect.gen(function* () {
+    const eventQueue = yield* EventQueue;
+    const exporter = yield* TraceExporter;
+
+    const drained = yield* Effect.gen(function* () {
+      yield* eventQueue.size.pipe(
+        Effect.repeat({
+          schedule: Schedule.spaced(SHUTDOWN_POLL_INTERVAL),
+          until: (size) => size <= 0,
+        })
+      );
+      yield* eventQueue.shutdown;
+      return yield* Fiber.await(processorFiber);
+    }).pipe(Effect.timeoutOption(SHUTDOWN_DRAIN_TIMEOUT));
+
+    if (Option.isNone(drained)) {
+      yield* Effect.logWarning('Timed out draining pending events on shutdown');
+      yield* eventQueue.shutdown;
+      yield* Fiber.interrupt(processorFiber);
+    }
+
+    yield* exporter.flush.pipe(
+      Effect.timeout(SHUTDOWN_FLUSH_TIMEOUT),
+      Effect.catchAll((error) =>
+        Effect.logWarning('Final flush did not complete on shutdown', { error: String(error) })
+      )
+    );
+  });
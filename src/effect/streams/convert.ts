@@ -0,0 +1,556 @@
+/**
+ * Conversion of OpenCode bus events and hook inputs to plugin events.
+ *
+ * OpenCode event payloads are typed locally (the subset this plugin reads),
+ * so the converters can be tested with the exact shapes OpenCode publishes.
+ */
+
+import type {
+  ChatMessageEvent,
+  ChatParamsEvent,
+  FileDiff,
+  MessageEvent,
+  MessagePartEvent,
+  PluginEvent,
+  SessionCompactedEvent,
+  SessionCompactingEvent,
+  SessionDiffEvent,
+  SessionErrorEvent,
+  SessionEvent,
+  SessionStatusEvent,
+} from './types.js';
+
+// ============================================================
+// TYPE DEFINITIONS
+// OpenCode event types (subset needed for this plugin)
+// ============================================================
+
+interface Session {
+  id: string;
+  title: string;
+  /** Set on subagent sessions spawned by the task tool */
+  parentID?: string;
+  time: {
+    created: number;
+    updated: number;
+  };
+}
+
+interface AssistantMessage {
+  id: string;
+  sessionID: string;
+  role: 'assistant';
+  parentID: string;
+  modelID: string;
+  providerID: string;
+  summary?: boolean;
+  cost: number;
+  tokens: {
+    input: number;
+    output: number;
+    reasoning: number;
+    cache: { read: number; write: number };
+  };
+  time: {
+    created: number;
+    completed?: number;
+  };
+  /** Set when the message failed (provider error, abort, output length) */
+  error?: SessionError;
+}
+
+interface UserMessage {
+  id: string;
+  sessionID: string;
+  role: 'user';
+  time: { created: number };
+}
+
+type Message = UserMessage | AssistantMessage;
+
+interface TextPart {
+  id: string;
+  sessionID: string;
+  messageID: string;
+  type: 'text';
+  text: string;
+  time?: { start: number; end?: number };
+}
+
+interface ReasoningPart {
+  id: string;
+  sessionID: string;
+  messageID: string;
+  type: 'reasoning';
+  text: string;
+  time: { start: number; end?: number };
+}
+
+interface StepStartPart {
+  id: string;
+  sessionID: string;
+  messageID: string;
+  type: 'step-start';
+}
+
+interface StepFinishPart {
+  id: string;
+  sessionID: string;
+  messageID: string;
+  type: 'step-finish';
+  reason: string;
+  cost: number;
+  tokens: {
+    input: number;
+    output: number;
+    reasoning: number;
+    cache: { read: number; write: number };
+  };
+}
+
+interface ToolPartState {
+  status: 'pending' | 'running' | 'completed' | 'error';
+  input: object;
+  output?: string;
+  title?: string;
+  time?: { start: number; end?: number };
+  error?: string;
+  /** Tool-specific metadata, e.g. the subagent sessionId of a task tool call */
+  metadata?: { sessionId?: unknown; [key: string]: unknown };
+}
+
+interface ToolPart {
+  id: string;
+  sessionID: string;
+  messageID: string;
+  type: 'tool';
+  callID: string;
+  tool: string;
+  state: ToolPartState;
+}
+
+interface SessionError {
+  name: string;
+  data?: {
+    message?: string;
+    providerID?: string;
+    statusCode?: number;
+    isRetryable?: boolean;
+    [key: string]: unknown;
+  };
+}
+
+type SessionStatus =
+  | { type: 'idle' }
+  | { type: 'busy' }
+  | { type: 'retry'; attempt: number; message: string; next: number };
+
+type Part =
+  | TextPart
+  | ReasoningPart
+  | ToolPart
+  | StepStartPart
+  | StepFinishPart
+  | { type: string; [key: string]: unknown };
+
+export interface OpenCodeEvent {
+  type: string;
+  properties: Record<string, unknown>;
+}
+
+// ============================================================
+// EVENT CONVERSION
+// Convert OpenCode events to our Effect stream types
+// ============================================================
+
+function convertSessionEvent(
+  eventType: 'session.created' | 'session.updated' | 'session.delete',
+  session: Session
+): SessionEvent {
+  const timestamp = Date.now();
+  return {
+    type: eventType,
+    eventKey: `${session.id}:${eventType}:${timestamp}`,
+    timestamp,
+    sessionId: session.id,
+    title: session.title,
+    parentId: session.parentID,
+  };
+}
+
+function convertSessionErrorEvent(
+  sessionId: string,
+  error: SessionError | undefined
+): SessionErrorEvent {
+  const timestamp = Date.now();
+  return {
+    type: 'session.error',
+    eventKey: `${sessionId}:error:${timestamp}`,
+    timestamp,
+    sessionId,
+    errorName: error?.name || 'UnknownError',
+    errorMessage: error?.data?.message,
+    providerId: error?.data?.providerID,
+    statusCode: error?.data?.statusCode,
+    isRetryable: error?.data?.isRetryable,
+  };
+}
+
+function convertSessionStatusEvent(sessionId: string, status: SessionStatus): SessionStatusEvent {
+  const timestamp = Date.now();
+  return {
+    type: 'session.status',
+    eventKey: `${sessionId}:status:${status.type}:${timestamp}`,
+    timestamp,
+    sessionId,
+    status: status.type,
+    ...(status.type === 'retry'
+      ? { attempt: status.attempt, reason: status.message, nextRetryAt: status.next }
+      : {}),
+  };
+}
+
+function convertMessageEvent(message: Message): MessageEvent | null {
+  // Only process complete messages
+  if (message.role === 'assistant') {
+    const assistantMsg = message as AssistantMessage;
+    if (!assistantMsg.time.completed) {
+      return null; // Skip incomplete assistant messages
+    }
+
+    return {
+      type: 'message.updated',
+      eventKey: message.id,
+      timestamp: Date.now(),
+      sessionId: message.sessionID,
+      messageId: message.id,
+      role: 'assistant',
+      model: `${assistantMsg.providerID}/${assistantMsg.modelID}`,
+      // Parent message ID for conversation threading
+      parentId: assistantMsg.parentID,
+      // Cost in USD
+      cost: assistantMsg.cost,
+      // Timing for accurate duration tracking
+      time: {
+        created: assistantMsg.time.created,
+        completed: assistantMsg.time.completed,
+      },
+      // Compaction summaries are regular assistant messages flagged as summary
+      summary: assistantMsg.summary,
+      usage: {
+        promptTokens: assistantMsg.tokens.input,
+        completionTokens: assistantMsg.tokens.output,
+        totalTokens:
+          assistantMsg.tokens.input + assistantMsg.tokens.output + assistantMsg.tokens.reasoning,
+        // Reasoning tokens (for o1, thinking models)
+        reasoningTokens: assistantMsg.tokens.reasoning,
+        // Cache tokens
+        cacheReadTokens: assistantMsg.tokens.cache.read,
+        cacheWriteTokens: assistantMsg.tokens.cache.write,
+      },
+      errorName: assistantMsg.error?.name,
+    };
+  }
+
+  // User messages are always complete
+  return {
+    type: 'message.updated',
+    eventKey: message.id,
+    timestamp: Date.now(),
+    sessionId: message.sessionID,
+    messageId: message.id,
+    role: 'user',
+  };
+}
+
+function convertMessagePartEvent(part: Part): MessagePartEvent | null {
+  if (part.type === 'text') {
+    const textPart = part as TextPart;
+
+    // Skip if no text content
+    if (!textPart.text) {
+      return null;
+    }
+
+    // For streaming text (has time.start), only process when complete (has time.end)
+    // User messages don't have time at all, so we process them immediately
+    if (textPart.time?.start && !textPart.time?.end) {
+      return null; // Still streaming, skip
+    }
+
+    return {
+      type: 'message.part.updated',
+      eventKey: textPart.id,
+      timestamp: Date.now(),
+      sessionId: textPart.sessionID,
+      messageId: textPart.messageID,
+      partId: textPart.id,
+      partType: 'text',
+      content: textPart.text,
+      time: textPart.time?.end ? { start: textPart.time.start, end: textPart.time.end } : undefined,
+    };
+  }
+
+  if (part.type === 'reasoning') {
+    const reasoningPart = part as ReasoningPart;
+
+    // Reasoning always streams - only process once complete
+    if (!reasoningPart.text || !reasoningPart.time?.end) {
+      return null;
+    }
+
+    return {
+      type: 'message.part.updated',
+      eventKey: reasoningPart.id,
+      timestamp: Date.now(),
+      sessionId: reasoningPart.sessionID,
+      messageId: reasoningPart.messageID,
+      partId: reasoningPart.id,
+      partType: 'reasoning',
+      content: reasoningPart.text,
+      time: { start: reasoningPart.time.start, end: reasoningPart.time.end },
+    };
+  }
+
+  if (part.type === 'step-start') {
+    const stepPart = part as StepStartPart;
+
+    return {
+      type: 'message.part.updated',
+      eventKey: stepPart.id,
+      timestamp: Date.now(),
+      sessionId: stepPart.sessionID,
+      messageId: stepPart.messageID,
+      partId: stepPart.id,
+      partType: 'step-start',
+    };
+  }
+
+  if (part.type === 'step-finish') {
+    const stepPart = part as StepFinishPart;
+
+    return {
+      type: 'message.part.updated',
+      eventKey: stepPart.id,
+      timestamp: Date.now(),
+      sessionId: stepPart.sessionID,
+      messageId: stepPart.messageID,
+      partId: stepPart.id,
+      partType: 'step-finish',
+      finishReason: stepPart.reason,
+      cost: stepPart.cost,
+      usage: {
+        promptTokens: stepPart.tokens.input,
+        completionTokens: stepPart.tokens.output,
+        totalTokens: stepPart.tokens.input + stepPart.tokens.output + stepPart.tokens.reasoning,
+        reasoningTokens: stepPart.tokens.reasoning,
+        cacheReadTokens: stepPart.tokens.cache.read,
+        cacheWriteTokens: stepPart.tokens.cache.write,
+      },
+    };
+  }
+
+  if (part.type === 'tool') {
+    const toolPart = part as ToolPart;
+
+    // Only process completed or errored tool calls
+    if (toolPart.state.status !== 'completed' && toolPart.state.status !== 'error') {
+      return null;
+    }
+
+    return {
+      type: 'message.part.updated',
+      eventKey: toolPart.id,
+      timestamp: Date.now(),
+      sessionId: toolPart.sessionID,
+      messageId: toolPart.messageID,
+      partId: toolPart.id,
+      partType: 'tool-call' as const,
+      toolName: toolPart.tool,
+      toolInput: toolPart.state.input,
+      toolOutput: toolPart.state.output,
+      toolError: toolPart.state.status === 'error' ? toolPart.state.error : undefined,
+      toolStatus: toolPart.state.status,
+      toolTitle: toolPart.state.title,
+      callId: toolPart.callID,
+      childSessionId:
+        typeof toolPart.state.metadata?.sessionId === 'string'
+          ? toolPart.state.metadata.sessionId
+          : undefined,
+      time: toolPart.state.time
+        ? { start: toolPart.state.time.start, end: toolPart.state.time.end }
+        : undefined,
+    };
+  }
+
+  return null;
+}
+
+// NOTE: convertToolEvent removed - tool.execute hooks not used anymore
+// We get complete tool data from message.part.updated events
+
+/**
+ * Convert chat.params hook input to ChatParamsEvent.
+ */
+export function convertChatParamsEvent(
+  sessionId: string,
+  params: {
+    temperature?: number;
+    topP?: number;
+    topK?: number;
+    maxTokens?: number;
+    frequencyPenalty?: number;
+    presencePenalty?: number;
+    stop?: string[];
+  }
+): ChatParamsEvent {
+  return {
+    type: 'chat.params',
+    eventKey: `${sessionId}:chat.params:${Date.now()}`,
+    timestamp: Date.now(),
+    sessionId,
+    params: {
+      temperature: params.temperature,
+      topP: params.topP,
+      topK: params.topK,
+      maxTokens: params.maxTokens,
+      frequencyPenalty: params.frequencyPenalty,
+      presencePenalty: params.presencePenalty,
+      stop: params.stop,
+    },
+  };
+}
+
+/**
+ * Convert session.diff event to SessionDiffEvent.
+ */
+function convertSessionDiffEvent(
+  sessionId: string,
+  diffs: Array<{ file: string; additions: number; deletions: number }>
+): SessionDiffEvent {
+  const timestamp = Date.now();
+  return {
+    type: 'session.diff',
+    eventKey: `${sessionId}:diff:${timestamp}`,
+    timestamp,
+    sessionId,
+    diffs: diffs.map(
+      (d): FileDiff => ({
+        file: d.file,
+        additions: d.additions,
+        deletions: d.deletions,
+      })
+    ),
+  };
+}
+
+/**
+ * Convert experimental.session.compacting hook output to SessionCompactingEvent.
+ */
+export function convertSessionCompactingEvent(
+  sessionId: string,
+  output: { context: string[]; prompt?: string }
+): SessionCompactingEvent {
+  const timestamp = Date.now();
+  return {
+    type: 'session.compacting',
+    eventKey: `${sessionId}:session.compacting:${timestamp}`,
+    timestamp,
+    sessionId,
+    context: [...output.context],
+    prompt: output.prompt,
+  };
+}
+
+/**
+ * Convert session.compacted event to SessionCompactedEvent.
+ */
+function convertSessionCompactedEvent(sessionId: string): SessionCompactedEvent {
+  const timestamp = Date.now();
+  return {
+    type: 'session.compacted',
+    eventKey: `${sessionId}:session.compacted:${timestamp}`,
+    timestamp,
+    sessionId,
+  };
+}
+
+/**
+ * Convert chat.message hook input to ChatMessageEvent.
+ */
+export function convertChatMessageEvent(
+  sessionId: string,
+  messageId: string,
+  model: { providerID: string; modelID: string },
+  agent: string
+): ChatMessageEvent {
+  return {
+    type: 'chat.message',
+    eventKey: `${sessionId}:chat.message:${messageId}`,
+    timestamp: Date.now(),
+    sessionId,
+    messageId,
+    model: `${model.providerID}/${model.modelID}`,
+    agent,
+  };
+}
+
+/**
+ * Convert an OpenCode bus event to a plugin event.
+ * Returns null for events this plugin ignores or that are not final yet.
+ */
+export function convertEvent(event: OpenCodeEvent): PluginEvent | null {
+  switch (event.type) {
+    case 'session.created':
+    case 'session.updated':
+    case 'session.delete': {
+      const session = (event.properties as { info: Session }).info;
+      return convertSessionEvent(event.type, session);
+    }
+
+    case 'message.updated': {
+      const message = (event.properties as { info: Message }).info;
+      return convertMessageEvent(message);
+    }
+
+    case 'message.part.updated': {
+      const part = (event.properties as { part: Part }).part;
+      return convertMessagePartEvent(part);
+    }
+
+    case 'session.diff': {
+      const { sessionID, diff } = event.properties as {
+        sessionID: string;
+        diff?: Array<{ file: string; additions: number; deletions: number }>;
+      };
+      return diff && diff.length > 0 ? convertSessionDiffEvent(sessionID, diff) : null;
+    }
+
+    case 'session.error': {
+      // The failing message is not part of the event; the processor finds it
+      const { sessionID, error } = event.properties as {
+        sessionID?: string;
+        error?: SessionError;
+      };
+      // Errors without a session can't be attached to a trace
+      return sessionID ? convertSessionErrorEvent(sessionID, error) : null;
+    }
+
+    case 'session.status': {
+      const { sessionID, status } = event.properties as {
+        sessionID: string;
+        status: SessionStatus;
+      };
+      return status ? convertSessionStatusEvent(sessionID, status) : null;
+    }
+
+    case 'session.compacted': {
+      const { sessionID } = event.properties as { sessionID: string };
+      return convertSessionCompactedEvent(sessionID);
+    }
+
+    // Silently ignore other events
+    default:
+      return null;
+  }
+}
@@ -22,9 +22,25 @@ export interface BasePluginEvent {
 export interface SessionEvent extends BasePluginEvent {
   readonly type: 'session.created' | 'session.updated' | 'session.delete';
   readonly title?: string;
+  /** Parent session, for subagent sessions spawned by the task tool */
+  readonly parentId?: string;
   readonly metadata?: Record<string, unknown>;
 }
 
+/**
+ * Token usage reported for an LLM call (message or step).
+ */
+export interface TokenUsage {
+  readonly promptTokens?: number;
+  readonly completionTokens?: number;
+  readonly totalTokens?: number;
+  /** Reasoning tokens (for o1, etc.) */
+  readonly reasoningTokens?: number;
+  /** Cache tokens */
+  readonly cacheReadTokens?: number;
+  readonly cacheWriteTokens?: number;
+}
+
 /**
  * Message events (user messages and assistant responses).
  */
@@ -43,43 +59,45 @@ export interface MessageEvent extends BasePluginEvent {
     readonly created: number;
     readonly completed?: number;
   };
-  readonly usage?: {
-    readonly promptTokens?: number;
-    readonly completionTokens?: number;
-    readonly totalTokens?: number;
-    /** Reasoning tokens (for o1, etc.) */
-    readonly reasoningTokens?: number;
-    /** Cache tokens */
-    readonly cacheReadTokens?: number;
-    readonly cacheWriteTokens?: number;
-  };
+  /** True if this assistant message is a compaction summary */
+  readonly summary?: boolean;
+  readonly usage?: TokenUsage;
+  /** Error class name when the assistant message failed (e.g. APIError) */
+  readonly errorName?: string;
 }
 
 /**
- * Message part events (text chunks, tool calls).
+ * Message part events (text chunks, reasoning, tool calls, step boundaries).
  */
 export interface MessagePartEvent extends BasePluginEvent {
   readonly type: 'message.part.updated';
   readonly messageId: string;
   readonly partId: string;
-  readonly partType: 'text' | 'tool-call';
+  readonly partType: 'text' | 'reasoning' | 'tool-call' | 'step-start' | 'step-finish';
   readonly content?: string;
+  /** Part timing (streamed text/reasoning, tool execution) */
+  readonly time?: {
+    readonly start: number;
+    readonly end?: number;
+  };
   readonly toolName?: string;
   readonly toolInput?: unknown;
   readonly toolOutput?: unknown;
   readonly toolError?: string;
-}
-
-/**
- * Tool execution events (from tool hooks).
- */
-export interface ToolEvent extends BasePluginEvent {
-  readonly type: 'tool.execute.before' | 'tool.execute.after';
-  readonly toolName: string;
-  readonly toolInput?: unknown;
-  readonly toolOutput?: unknown;
-  readonly duration?: number;
-  readonly error?: string;
+  /** Final tool state (tool-call only) */
+  readonly toolStatus?: 'completed' | 'error';
+  /** Human-readable tool title, e.g. the file being read (tool-call only) */
+  readonly toolTitle?: string;
+  /** Provider tool call ID (tool-call only) */
+  readonly callId?: string;
+  /** Subagent session the tool spawned (task tool only) */
+  readonly childSessionId?: string;
+  /** Step finish reason (step-finish only, e.g. "stop", "tool-calls") */
+  readonly finishReason?: string;
+  /** Step cost in USD (step-finish only) */
+  readonly cost?: number;
+  /** Step token usage (step-finish only) */
+  readonly usage?: TokenUsage;
 }
 
 /**
@@ -114,10 +132,10 @@ export interface FileDiff {
 
 /**
  * Session diff event - captures file changes made during the session.
+ * OpenCode publishes the diff of the whole session so far, not of one message.
  */
 export interface SessionDiffEvent extends BasePluginEvent {
   readonly type: 'session.diff';
-  readonly messageId: string;
   readonly diffs: readonly FileDiff[];
 }
 
@@ -132,6 +150,56 @@ export interface ChatMessageEvent extends BasePluginEvent {
   readonly agent: string;
 }
 
+/**
+ * Session error event - an unrecoverable error raised while processing a session.
+ * From the session.error bus event (provider errors, aborts, output length, etc.).
+ */
+export interface SessionErrorEvent extends BasePluginEvent {
+  readonly type: 'session.error';
+  /** Error class name (e.g. APIError, ProviderAuthError) */
+  readonly errorName: string;
+  readonly errorMessage?: string;
+  /** Provider details, when the error carries them */
+  readonly providerId?: string;
+  readonly statusCode?: number;
+  readonly isRetryable?: boolean;
+}
+
+/**
+ * Session status event - tracks idle/busy/retry transitions.
+ * From the session.status bus event.
+ */
+export interface SessionStatusEvent extends BasePluginEvent {
+  readonly type: 'session.status';
+  readonly status: 'idle' | 'busy' | 'retry';
+  /** Retry attempt number (retry only) */
+  readonly attempt?: number;
+  /** Reason for the retry, usually the provider error message (retry only) */
+  readonly reason?: string;
+  /** Epoch milliseconds of the next retry attempt (retry only) */
+  readonly nextRetryAt?: number;
+}
+
+/**
+ * Session compacting event - compaction is about to run.
+ * From the experimental.session.compacting hook.
+ */
+export interface SessionCompactingEvent extends BasePluginEvent {
+  readonly type: 'session.compacting';
+  /** Context strings that will be included in the compaction prompt */
+  readonly context: readonly string[];
+  /** Custom compaction prompt, if one replaces the default */
+  readonly prompt?: string;
+}
+
+/**
+ * Session compacted event - history was successfully compacted.
+ * From the session.compacted bus event.
+ */
+export interface SessionCompactedEvent extends BasePluginEvent {
+  readonly type: 'session.compacted';
+}
+
 /**
  * Union type of all events that flow through the stream.
  */
@@ -139,18 +207,24 @@ export type PluginEvent =
   | SessionEvent
   | MessageEvent
   | MessagePartEvent
-  | ToolEvent
   | ChatParamsEvent
   | SessionDiffEvent
-  | ChatMessageEvent;
+  | ChatMessageEvent
+  | SessionErrorEvent
+  | SessionStatusEvent
+  | SessionCompactingEvent
+  | SessionCompactedEvent;
 
 /**
  * Extract the event key used for grouping and deduplication.
  *
  * - For parts: use partId (most granular)
  * - For messages: use messageId
- * - For sessions: use sessionId
- * - For tools: use sessionId + toolName (unique per invocation)
+ * - For session lifecycle and chat params: use sessionId + type + timestamp
+ *   (keys are persisted, so a shared sessionId key would skip every later update)
+ * - For session diffs and errors: use sessionId + timestamp (the events name no message)
+ * - For session status: use sessionId + status + timestamp (every transition counts)
+ * - For compaction: use sessionId + type + timestamp (a session can compact many times)
  */
 export function getEventKey(event: PluginEvent): string {
   switch (event.type) {
@@ -158,15 +232,21 @@ export function getEventKey(event: PluginEvent): string {
       return event.partId;
     case 'message.updated':
       return event.messageId;
-    case 'tool.execute.before':
-    case 'tool.execute.after':
-      return `${event.sessionId}:${event.toolName}:${event.timestamp}`;
     case 'session.diff':
-      return `${event.sessionId}:diff:${event.messageId}`;
+      return `${event.sessionId}:diff:${event.timestamp}`;
     case 'chat.message':
       return `${event.sessionId}:chat.message:${event.messageId}`;
-    default:
-      return event.sessionId;
+    case 'session.error':
+      return `${event.sessionId}:error:${event.timestamp}`;
+    case 'session.status':
+      return `${event.sessionId}:status:${event.status}:${event.timestamp}`;
+    case 'session.created':
+    case 'session.updated':
+    case 'session.delete':
+    case 'chat.params':
+    case 'session.compacting':
+    case 'session.compacted':
+      return `${event.sessionId}:${event.type}:${event.timestamp}`;
   }
 }
 
@@ -182,6 +262,60 @@ export interface MessageInfo {
   readonly model?: string;
   /** Parent observation ID for threading (from previous message) */
   readonly parentObservationId?: string;
+  /** True if this is a compaction summary message */
+  readonly summary?: boolean;
+  /** True if this assistant message completed with an error */
+  readonly failed?: boolean;
+  /** Redacted text, kept to build generation inputs (user messages, and assistant ones for multi-turn input) */
+  readonly text?: string;
+}
+
+/**
+ * A single LLM round-trip within an assistant message, delimited by
+ * step-start / step-finish parts.
+ */
+export interface StepInfo {
+  /** Zero-based position of the step within its message */
+  readonly index: number;
+  /** When the step started (step-start arrival) */
+  readonly startTime: number;
+  /** When the step finished (step-finish arrival) */
+  readonly endTime?: number;
+  readonly finishReason?: string;
+  /** Step cost in USD */
+  readonly cost?: number;
+  readonly usage?: TokenUsage;
+}
+
+/**
+ * Compaction in progress (between the compacting hook and session.compacted).
+ */
+export interface PendingCompaction {
+  /** Langfuse span ID of the compaction span */
+  readonly spanId: string;
+  /** Context size of the last generation before compaction */
+  readonly tokensBefore?: number;
+  /** Output tokens of the compaction summary (size of the compacted history) */
+  readonly tokensAfter?: number;
+}
+
+/**
+ * Running totals for a session, exported as trace metadata.
+ */
+export interface SessionTotals {
+  /** Cost in USD */
+  readonly cost: number;
+  readonly inputTokens: number;
+  readonly outputTokens: number;
+  readonly reasoningTokens: number;
+  readonly cacheReadTokens: number;
+  readonly cacheWriteTokens: number;
+  /** Assistant generations (including compaction summaries) */
+  readonly generations: number;
+  readonly toolCalls: number;
+  readonly toolErrors: number;
+  /** Distinct files changed (from session.diff) */
+  readonly changedFiles: readonly string[];
 }
 
 /**
@@ -198,8 +332,30 @@ export interface TraceState {
   readonly createdAt: number;
   /** Message info (messageId -> MessageInfo) - tracks role and Langfuse observation ID */
   readonly messages: Map<string, MessageInfo>;
-  /** Active span IDs (partId/toolKey -> spanId) */
+  /** Active span IDs (partId/toolKey/status key -> spanId) */
   readonly spans: Map<string, string>;
   /** Model parameters captured from chat.params hook (pending for next generation) */
   readonly pendingModelParams?: ModelParams;
+  /** LLM steps per assistant message (messageId -> steps in order) */
+  readonly steps?: Map<string, readonly StepInfo[]>;
+  /** Context size (prompt plus cached tokens) of the most recent assistant generation */
+  readonly lastContextTokens?: number;
+  /** Compaction currently in progress, if any */
+  readonly pendingCompaction?: PendingCompaction;
+  /** Number of completed compactions in this session */
+  readonly compactionCount?: number;
+  /** Events of this session dropped by the event queue, as last exported */
+  readonly droppedEvents?: number;
+  /** True once the trace input was set from the first user prompt */
+  readonly hasTraceInput?: boolean;
+  /** Trace tags (agents, models and providers used), as last exported */
+  readonly tags?: readonly string[];
+  /** Cost, token and tool totals of the session so far */
+  readonly totals?: SessionTotals;
+  /** Parent session, for subagent sessions */
+  readonly parentSessionId?: string;
+  /** Span every root observation nests under (subagent sessions nested in the parent trace) */
+  readonly rootObservationId?: string;
+  /** Langfuse sessionId when it differs from sessionId (subagent traces linked to their parent) */
+  readonly langfuseSessionId?: string;
 }
@@ -21,295 +21,16 @@ import { getInvalidPatterns, loadConfig, validateConfig } from './lib/config.js'
 import { logError, logInfo, logWarn } from './lib/logger.js';
 import { forkDaemon, initializeRuntime, runEffect, shutdown } from './effect/runtime.js';
 import { EventQueue } from './effect/services/EventQueue.js';
-import { runEventProcessor } from './effect/streams/EventProcessor.js';
-import type {
-  ChatMessageEvent,
-  ChatParamsEvent,
-  FileDiff,
-  MessageEvent,
-  MessagePartEvent,
-  PluginEvent,
-  SessionDiffEvent,
-  SessionEvent,
-} from './effect/streams/types.js';
-
-// ============================================================
-// TYPE DEFINITIONS
-// OpenCode event types (subset needed for this plugin)
-// ============================================================
-
-interface Session {
-  id: string;
-  title: string;
-  time: {
-    created: number;
-    updated: number;
-  };
-}
-
-interface AssistantMessage {
-  id: string;
-  sessionID: string;
-  role: 'assistant';
-  parentID: string;
-  modelID: string;
-  providerID: string;
-  cost: number;
-  tokens: {
-    input: number;
-    output: number;
-    reasoning: number;
-    cache: { read: number; write: number };
-  };
-  time: {
-    created: number;
-    completed?: number;
-  };
-}
-
-interface UserMessage {
-  id: string;
-  sessionID: string;
-  role: 'user';
-  time: { created: number };
-}
-
-type Message = UserMessage | AssistantMessage;
-
-interface TextPart {
-  id: string;
-  sessionID: string;
-  messageID: string;
-  type: 'text';
-  text: string;
-  time?: { start: number; end?: number };
-}
-
-interface ToolPartState {
-  status: 'pending' | 'running' | 'completed' | 'error';
-  input: object;
-  output?: string;
-  title?: string;
-  time?: { start: number; end?: number };
-  error?: string;
-}
-
-interface ToolPart {
-  id: string;
-  sessionID: string;
-  messageID: string;
-  type: 'tool';
-  callID: string;
-  tool: string;
-  state: ToolPartState;
-}
-
-type Part = TextPart | ToolPart | { type: string; [key: string]: unknown };
-
-interface Event {
-  type: string;
-  properties: Record<string, unknown>;
-}
-
-// ============================================================
-// EVENT CONVERSION
-// Convert OpenCode events to our Effect stream types
-// ============================================================
-
-function convertSessionEvent(
-  eventType: 'session.created' | 'session.updated' | 'session.delete',
-  session: Session
-): SessionEvent {
-  return {
-    type: eventType,
-    eventKey: session.id,
-    timestamp: Date.now(),
-    sessionId: session.id,
-    title: session.title,
-  };
-}
-
-function convertMessageEvent(message: Message): MessageEvent | null {
-  // Only process complete messages
-  if (message.role === 'assistant') {
-    const assistantMsg = message as AssistantMessage;
-    if (!assistantMsg.time.completed) {
-      return null; // Skip incomplete assistant messages
-    }
-
-    return {
-      type: 'message.updated',
-      eventKey: message.id,
-      timestamp: Date.now(),
-      sessionId: message.sessionID,
-      messageId: message.id,
-      role: 'assistant',
-      model: `${assistantMsg.providerID}/${assistantMsg.modelID}`,
-      // Parent message ID for conversation threading
-      parentId: assistantMsg.parentID,
-      // Cost in USD
-      cost: assistantMsg.cost,
-      // Timing for accurate duration tracking
-      time: {
-        created: assistantMsg.time.created,
-        completed: assistantMsg.time.completed,
-      },
-      usage: {
-        promptTokens: assistantMsg.tokens.input,
-        completionTokens: assistantMsg.tokens.output,
-        totalTokens:
-          assistantMsg.tokens.input + assistantMsg.tokens.output + assistantMsg.tokens.reasoning,
-        // Reasoning tokens (for o1, thinking models)
-        reasoningTokens: assistantMsg.tokens.reasoning,
-        // Cache tokens
-        cacheReadTokens: assistantMsg.tokens.cache.read,
-        cacheWriteTokens: assistantMsg.tokens.cache.write,
-      },
-    };
-  }
-
-  // User messages are always complete
-  return {
-    type: 'message.updated',
-    eventKey: message.id,
-    timestamp: Date.now(),
-    sessionId: message.sessionID,
-    messageId: message.id,
-    role: 'user',
-  };
-}
-
-function convertMessagePartEvent(part: Part): MessagePartEvent | null {
-  if (part.type === 'text') {
-    const textPart = part as TextPart;
-
-    // Skip if no text content
-    if (!textPart.text) {
-      return null;
-    }
-
-    // For streaming text (has time.start), only process when complete (has time.end)
-    // User messages don't have time at all, so we process them immediately
-    if (textPart.time?.start && !textPart.time?.end) {
-      return null; // Still streaming, skip
-    }
-
-    return {
-      type: 'message.part.updated',
-      eventKey: textPart.id,
-      timestamp: Date.now(),
-      sessionId: textPart.sessionID,
-      messageId: textPart.messageID,
-      partId: textPart.id,
-      partType: 'text',
-      content: textPart.text,
-    };
-  }
-
-  if (part.type === 'tool') {
-    const toolPart = part as ToolPart;
-
-    // Only process completed or errored tool calls
-    if (toolPart.state.status !== 'completed' && toolPart.state.status !== 'error') {
-      return null;
-    }
-
-    return {
-      type: 'message.part.updated',
-      eventKey: toolPart.id,
-      timestamp: Date.now(),
-      sessionId: toolPart.sessionID,
-      messageId: toolPart.messageID,
-      partId: toolPart.id,
-      partType: 'tool-call' as const,
-      toolName: toolPart.tool,
-      toolInput: toolPart.state.input,
-      toolOutput: toolPart.state.output,
-      toolError: toolPart.state.status === 'error' ? toolPart.state.error : undefined,
-    };
-  }
-
-  return null;
-}
-
-// NOTE: convertToolEvent removed - tool.execute hooks not used anymore
-// We get complete tool data from message.part.updated events
-
-/**
- * Convert chat.params hook input to ChatParamsEvent.
- */
-function convertChatParamsEvent(
-  sessionId: string,
-  params: {
-    temperature?: number;
-    topP?: number;
-    topK?: number;
-    maxTokens?: number;
-    frequencyPenalty?: number;
-    presencePenalty?: number;
-    stop?: string[];
-  }
-): ChatParamsEvent {
-  return {
-    type: 'chat.params',
-    eventKey: `${sessionId}:chat.params:${Date.now()}`,
-    timestamp: Date.now(),
-    sessionId,
-    params: {
-      temperature: params.temperature,
-      topP: params.topP,
-      topK: params.topK,
-      maxTokens: params.maxTokens,
-      frequencyPenalty: params.frequencyPenalty,
-      presencePenalty: params.presencePenalty,
-      stop: params.stop,
-    },
-  };
-}
-
-/**
- * Convert session.diff event to SessionDiffEvent.
- */
-function convertSessionDiffEvent(
-  sessionId: string,
-  messageId: string,
-  diffs: Array<{ file: string; additions: number; deletions: number }>
-): SessionDiffEvent {
-  return {
-    type: 'session.diff',
-    eventKey: `${sessionId}:diff:${messageId}`,
-    timestamp: Date.now(),
-    sessionId,
-    messageId,
-    diffs: diffs.map(
-      (d): FileDiff => ({
-        file: d.file,
-        additions: d.additions,
-        deletions: d.deletions,
-      })
-    ),
-  };
-}
-
-/**
- * Convert chat.message hook input to ChatMessageEvent.
- */
-function convertChatMessageEvent(
-  sessionId: string,
-  messageId: string,
-  model: { providerID: string; modelID: string },
-  agent: string
-): ChatMessageEvent {
-  return {
-    type: 'chat.message',
-    eventKey: `${sessionId}:chat.message:${messageId}`,
-    timestamp: Date.now(),
-    sessionId,
-    messageId,
-    model: `${model.providerID}/${model.modelID}`,
-    agent,
-  };
-}
+import { SessionLookup, makeSessionLookup } from './effect/services/SessionLookup.js';
+import { drainEventProcessor, runEventProcessor } from './effect/streams/EventProcessor.js';
+import {
+  convertChatMessageEvent,
+  convertChatParamsEvent,
+  convertEvent,
+  convertSessionCompactingEvent,
+  type OpenCodeEvent,
+} from './effect/streams/convert.js';
+import type { PluginEvent } from './effect/streams/types.js';
 
 // ============================================================
 // PLUGIN STATE
@@ -323,7 +44,7 @@ let processorFiber: Fiber.RuntimeFiber<void, any> | null = null;
 // PLUGIN EXPORT
 // ============================================================
 
-export const LangfuseExporterPlugin: Plugin = async () => {
+export const LangfuseExporterPlugin: Plugin = async ({ client }) => {
   try {
     // Load and validate configuration
     const pluginConfig = loadConfig();
@@ -367,7 +88,10 @@ export const LangfuseExporterPlugin: Plugin = async () => {
       // that persists across multiple runPromise calls. Otherwise, the
       // stream fiber's parent context terminates when runPromise completes,
       // preventing it from receiving queue events offered later.
-      processorFiber = forkDaemon(runEventProcessor);
+      // The OpenCode client lets the processor name traces of resumed sessions
+      processorFiber = forkDaemon(
+        runEventProcessor.pipe(Effect.provideService(SessionLookup, makeSessionLookup(client)))
+      );
       logInfo('Event processor started');
     } catch (error) {
       logError(error, 'Failed to initialize Effect runtime');
@@ -377,11 +101,15 @@ export const LangfuseExporterPlugin: Plugin = async () => {
     // Register shutdown handler
     const shutdownHandler = async (): Promise<void> => {
       try {
+        if (!isInitialized) return;
         logInfo('Shutting down Langfuse exporter...');
 
-        // Interrupt the processor fiber
+        // Stop accepting new events from hooks
+        isInitialized = false;
+
+        // Process pending debounced events and flush them before disposing
         if (processorFiber) {
-          await runEffect(Fiber.interrupt(processorFiber));
+          await runEffect(drainEventProcessor(processorFiber));
           processorFiber = null;
         }
 
@@ -424,62 +152,13 @@ export const LangfuseExporterPlugin: Plugin = async () => {
 
     return {
       // Main event hook - handles all OpenCode events
-      async event({ event }: { event: Event }): Promise<void> {
+      async event({ event }: { event: OpenCodeEvent }): Promise<void> {
         if (!isInitialized) return;
 
         try {
-          switch (event.type) {
-            case 'session.created': {
-              const session = (event.properties as { info: Session }).info;
-              await queueEvent(convertSessionEvent('session.created', session));
-              break;
-            }
-
-            case 'session.updated': {
-              const session = (event.properties as { info: Session }).info;
-              await queueEvent(convertSessionEvent('session.updated', session));
-              break;
-            }
-
-            case 'session.delete': {
-              const session = (event.properties as { info: Session }).info;
-              await queueEvent(convertSessionEvent('session.delete', session));
-              break;
-            }
-
-            case 'message.updated': {
-              const message = (event.properties as { info: Message }).info;
-              const converted = convertMessageEvent(message);
-              if (converted) {
-                await queueEvent(converted);
-              }
-              break;
-            }
-
-            case 'message.part.updated': {
-              const part = (event.properties as { part: Part }).part;
-              const converted = convertMessagePartEvent(part);
-              if (converted) {
-                await queueEvent(converted);
-              }
-              break;
-            }
-
-            case 'session.diff': {
-              const { sessionID, messageID, diffs } = event.properties as {
-                sessionID: string;
-                messageID: string;
-                diffs: Array<{ file: string; additions: number; deletions: number }>;
-              };
-              if (diffs && diffs.length > 0) {
-                await queueEvent(convertSessionDiffEvent(sessionID, messageID, diffs));
-              }
-              break;
-            }
-
-            // Silently ignore other events
-            default:
-              break;
+          const converted = convertEvent(event);
+          if (converted) {
+            await queueEvent(converted);
           }
         } catch (error) {
           logError(error, `Error handling event ${event.type}`);
@@ -546,6 +225,23 @@ export const LangfuseExporterPlugin: Plugin = async () => {
           logError(error, 'Error handling chat.message hook');
         }
       },
+
+      /**
+       * Capture the compaction prompt and context before history is compacted.
+       * Other plugins may have added context, so we only read the output here.
+       */
+      async 'experimental.session.compacting'(
+        input: { sessionID: string },
+        output: { context: string[]; prompt?: string }
+      ): Promise<void> {
+        if (!isInitialized) return;
+
+        try {
+          await queueEvent(convertSessionCompactingEvent(input.sessionID, output));
+        } catch (error) {
+          logError(error, 'Error handling experimental.session.compacting hook');
+        }
+      },
     };
   } catch (error) {
     logError(error, 'Fatal error initializing plugin');
@@ -97,24 +97,42 @@ export function createAuditLogEntry(
 }
 
 /**
- * Clean up old audit log files based on retention policy.
+ * Delete `<prefix>*.jsonl` files in a directory that are older than
+ * retentionDays, then the oldest ones until the total fits maxSpoolSizeMB.
+ * Shared by the audit log and the local trace store. Never throws.
  */
-export async function cleanupAuditLog(config: LangfuseExporterConfig): Promise<void> {
+export async function cleanupJsonlFiles(
+  dir: string,
+  prefix: string,
+  config: LangfuseExporterConfig
+): Promise<void> {
+  await cleanupSpoolFiles(dir, prefix, '.jsonl', config);
+}
+
+/**
+ * Like cleanupJsonlFiles, for `<prefix>*<suffix>` files (e.g. session snapshots).
+ */
+export async function cleanupSpoolFiles(
+  dir: string,
+  prefix: string,
+  suffix: string,
+  config: LangfuseExporterConfig
+): Promise<void> {
   try {
-    const files = await readdir(config.spoolDir);
+    const files = await readdir(dir);
     const now = Date.now();
     const retentionMs = config.retentionDays * 24 * 60 * 60 * 1000;
     const maxSizeBytes = config.maxSpoolSizeMB * 1024 * 1024;
 
-    // Get file stats for audit files only
+    // Get file stats for matching files only
     const fileStats: Array<{ name: string; path: string; mtime: number; size: number }> = [];
 
     for (const file of files) {
-      if (!file.startsWith('audit-') || !file.endsWith('.jsonl')) {
+      if (!file.startsWith(prefix) || !file.endsWith(suffix)) {
         continue;
       }
 
-      const filepath = join(config.spoolDir, file);
+      const filepath = join(dir, file);
       try {
         const stats = await stat(filepath);
         fileStats.push({
@@ -143,7 +161,7 @@ export async function cleanupAuditLog(config: LangfuseExporterConfig): Promise<v
         try {
           await unlink(file.path);
           totalSize -= file.size;
-          logInfo('Cleaned up old audit log file', { file: file.name });
+          logInfo('Cleaned up old log file', { file: file.name });
         } catch {
           // Ignore errors during cleanup
         }
@@ -153,3 +171,10 @@ export async function cleanupAuditLog(config: LangfuseExporterConfig): Promise<v
     // Ignore errors during cleanup - not critical
   }
 }
+
+/**
+ * Clean up old audit log files based on retention policy.
+ */
+export async function cleanupAuditLog(config: LangfuseExporterConfig): Promise<void> {
+  await cleanupJsonlFiles(config.spoolDir, 'audit-', config);
+}
@@ -6,8 +6,52 @@
  * 2. Plugin config in opencode.json
  */
 
+import { URL } from 'node:url';
+
 export type ExportMode = 'full' | 'metadata_only' | 'off';
 
+/** Where processed event IDs are kept */
+export const PROCESSED_IDS_STORES = ['memory', 'persistent'] as const;
+
+export type ProcessedIdsStore = (typeof PROCESSED_IDS_STORES)[number];
+
+/** Where session state is kept */
+export const SESSION_STATE_STORES = ['memory', 'persistent'] as const;
+
+export type SessionStateStore = (typeof SESSION_STATE_STORES)[number];
+
+/** Destinations observations can be exported to */
+export const EXPORTER_KINDS = ['langfuse', 'otlp', 'local'] as const;
+
+export type ExporterKind = (typeof EXPORTER_KINDS)[number];
+
+export type OtlpProtocol = 'http/json' | 'http/protobuf';
+
+/** What happens to new events when the event queue is full */
+export const QUEUE_OVERFLOW_POLICIES = ['block', 'dropping', 'sliding', 'spill'] as const;
+
+export type QueueOverflowPolicy = (typeof QUEUE_OVERFLOW_POLICIES)[number];
+
+/** Where the trace userId comes from ('auto' tries env, git and os in that order) */
+export const USER_ID_SOURCES = ['auto', 'env', 'git', 'os', 'none'] as const;
+
+export type UserIdSource = (typeof USER_ID_SOURCES)[number];
+
+/** How subagent sessions are traced: inside the parent trace, or as linked traces */
+export const SUBAGENT_TRACE_MODES = ['nested', 'linked'] as const;
+
+export type SubagentTraceMode = (typeof SUBAGENT_TRACE_MODES)[number];
+
+/** Model prices in USD per million tokens (cache and reasoning prices are optional) */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+  /** Defaults to the output price */
+  reasoning?: number;
+}
+
 export interface LangfuseExporterConfig {
   /** Langfuse public key (required) */
   publicKey: string;
@@ -33,6 +77,47 @@ export interface LangfuseExporterConfig {
   verbose: boolean;
   /** Enable plugin (default: true) */
   enabled: boolean;
+  /** Drop reasoning (thinking) text but keep its timing (default: false) */
+  excludeReasoning: boolean;
+  /** Where processed event IDs are kept: 'memory' | 'persistent' (default: memory) */
+  processedIdsStore: ProcessedIdsStore;
+  /** Max processed IDs held in memory by the persistent store (default: 10000) */
+  processedIdsMaxEntries: number;
+  /** Debounce for parts without a completion marker, in milliseconds (default: 10000) */
+  debounceMs: number;
+  /** Destinations every observation is sent to (default: langfuse) */
+  exporters: ExporterKind[];
+  /** OTLP/HTTP traces endpoint (default: http://localhost:4318/v1/traces) */
+  otlpEndpoint: string;
+  /** OTLP/HTTP encoding: 'http/json' | 'http/protobuf' (default: http/json) */
+  otlpProtocol: OtlpProtocol;
+  /** Extra headers sent with OTLP requests, e.g. auth tokens */
+  otlpHeaders: Record<string, string>;
+  /**
+   * Event queue overflow policy: 'block' (wait for space), 'dropping' (drop newest),
+   * 'sliding' (drop oldest) or 'spill' (overflow to disk) (default: sliding)
+   */
+  queueOverflow: QueueOverflowPolicy;
+  /**
+   * Where session state is kept: 'memory' (until session.delete) or 'persistent'
+   * (idle sessions evicted to spoolDir) (default: persistent)
+   */
+  sessionStateStore: SessionStateStore;
+  /** Evict session state after this long without events, in ms; 0 disables (default: 1800000) */
+  sessionIdleTimeoutMs: number;
+  /** Conversation turns sent as generation input, ending with the prompting user message (default: 1) */
+  generationInputTurns: number;
+  /** Explicit trace userId, used by the 'env' and 'auto' sources */
+  userId: string;
+  /** Source of the trace userId: env, git user.email, OS username, auto or none (default: auto) */
+  userIdSource: UserIdSource;
+  /** Prices by `provider/model`, overriding the bundled catalog used when no cost is reported */
+  modelPricing: Record<string, ModelPrice>;
+  /**
+   * Subagent sessions: 'nested' (span tree inside the parent trace) or 'linked'
+   * (own trace in the parent's Langfuse session) (default: nested)
+   */
+  subagentTraces: SubagentTraceMode;
 }
 
 // Store invalid patterns for later logging (can't import logger here due to circular deps)
@@ -66,6 +151,47 @@ function parseRedactPatterns(input: string | undefined): RegExp[] {
     .filter((p): p is RegExp => p !== null);
 }
 
+/**
+ * Parse comma-separated exporter names.
+ * Unknown names are kept so validateConfig can report them.
+ */
+function parseExporters(input: string | undefined): ExporterKind[] | undefined {
+  if (!input) return undefined;
+  return input
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean) as ExporterKind[];
+}
+
+/**
+ * Parse comma-separated `key=value` header pairs (OTEL_EXPORTER_OTLP_HEADERS format).
+ */
+function parseHeaders(input: string | undefined): Record<string, string> | undefined {
+  if (!input) return undefined;
+  const headers: Record<string, string> = {};
+  for (const pair of input.split(',')) {
+    const index = pair.indexOf('=');
+    if (index <= 0) continue;
+    headers[pair.slice(0, index).trim()] = decodeURIComponent(pair.slice(index + 1).trim());
+  }
+  return headers;
+}
+
+/**
+ * Parse a JSON object of model prices. Invalid JSON is ignored.
+ */
+function parseModelPricing(input: string | undefined): Record<string, ModelPrice> | undefined {
+  if (!input) return undefined;
+  try {
+    const parsed: unknown = JSON.parse(input);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, ModelPrice>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Get the default spool directory
  */
@@ -105,6 +231,56 @@ export function loadConfig(pluginConfig?: Partial<LangfuseExporterConfig>): Lang
     traceNamePrefix: env.OPENCODE_LANGFUSE_TRACE_PREFIX || pluginConfig?.traceNamePrefix || '',
     verbose: env.OPENCODE_LANGFUSE_VERBOSE === 'true' || pluginConfig?.verbose || false,
     enabled: env.OPENCODE_LANGFUSE_ENABLED !== 'false' && (pluginConfig?.enabled ?? true),
+    excludeReasoning:
+      env.OPENCODE_LANGFUSE_EXCLUDE_REASONING === 'true' || pluginConfig?.excludeReasoning || false,
+    processedIdsStore: (env.OPENCODE_LANGFUSE_PROCESSED_IDS_STORE ||
+      pluginConfig?.processedIdsStore ||
+      'memory') as ProcessedIdsStore,
+    processedIdsMaxEntries: parseInt(
+      env.OPENCODE_LANGFUSE_PROCESSED_IDS_MAX ||
+        String(pluginConfig?.processedIdsMaxEntries || 10000),
+      10
+    ),
+    debounceMs: parseInt(
+      env.OPENCODE_LANGFUSE_DEBOUNCE_MS || String(pluginConfig?.debounceMs ?? 10000),
+      10
+    ),
+    exporters: parseExporters(env.OPENCODE_LANGFUSE_EXPORTERS) ||
+      pluginConfig?.exporters || ['langfuse'],
+    otlpEndpoint:
+      env.OPENCODE_LANGFUSE_OTLP_ENDPOINT ||
+      pluginConfig?.otlpEndpoint ||
+      'http://localhost:4318/v1/traces',
+    otlpProtocol: (env.OPENCODE_LANGFUSE_OTLP_PROTOCOL ||
+      pluginConfig?.otlpProtocol ||
+      'http/json') as OtlpProtocol,
+    otlpHeaders:
+      parseHeaders(env.OPENCODE_LANGFUSE_OTLP_HEADERS) || pluginConfig?.otlpHeaders || {},
+    queueOverflow: (env.OPENCODE_LANGFUSE_QUEUE_OVERFLOW?.trim().toLowerCase() ||
+      pluginConfig?.queueOverflow ||
+      'sliding') as QueueOverflowPolicy,
+    sessionStateStore: (env.OPENCODE_LANGFUSE_SESSION_STATE_STORE ||
+      pluginConfig?.sessionStateStore ||
+      'persistent') as SessionStateStore,
+    sessionIdleTimeoutMs: parseInt(
+      env.OPENCODE_LANGFUSE_SESSION_IDLE_MS ||
+        String(pluginConfig?.sessionIdleTimeoutMs ?? 30 * 60 * 1000),
+      10
+    ),
+    generationInputTurns: parseInt(
+      env.OPENCODE_LANGFUSE_GENERATION_INPUT_TURNS ||
+        String(pluginConfig?.generationInputTurns ?? 1),
+      10
+    ),
+    userId: env.OPENCODE_LANGFUSE_USER_ID || pluginConfig?.userId || '',
+    userIdSource: (env.OPENCODE_LANGFUSE_USER_ID_SOURCE?.trim().toLowerCase() ||
+      pluginConfig?.userIdSource ||
+      'auto') as UserIdSource,
+    modelPricing:
+      parseModelPricing(env.OPENCODE_LANGFUSE_MODEL_PRICING) || pluginConfig?.modelPricing || {},
+    subagentTraces: (env.OPENCODE_LANGFUSE_SUBAGENT_TRACES?.trim().toLowerCase() ||
+      pluginConfig?.subagentTraces ||
+      'nested') as SubagentTraceMode,
   };
 }
 
@@ -114,7 +290,67 @@ export function loadConfig(pluginConfig?: Partial<LangfuseExporterConfig>): Lang
 export function validateConfig(config: LangfuseExporterConfig): string[] {
   const errors: string[] = [];
 
-  if (config.exportMode !== 'off') {
+  const unknownExporters = config.exporters.filter((name) => !EXPORTER_KINDS.includes(name));
+  for (const name of unknownExporters) {
+    errors.push(`Unknown exporter: ${name}`);
+  }
+  if (config.exporters.length === 0) {
+    errors.push('At least one exporter is required');
+  }
+
+  if (config.exporters.includes('otlp')) {
+    if (!URL.canParse(config.otlpEndpoint)) {
+      errors.push(`Invalid OTLP endpoint: ${config.otlpEndpoint}`);
+    }
+    if (config.otlpProtocol !== 'http/json' && config.otlpProtocol !== 'http/protobuf') {
+      errors.push(`Unsupported OTLP protocol: ${config.otlpProtocol}`);
+    }
+  }
+
+  if (!PROCESSED_IDS_STORES.includes(config.processedIdsStore)) {
+    errors.push(`Unknown processed IDs store: ${config.processedIdsStore}`);
+  }
+  // Written as negated comparisons so NaN (an unparsable env var) is rejected too
+  if (!(config.processedIdsMaxEntries > 0)) {
+    errors.push(`Invalid processed IDs max entries: ${config.processedIdsMaxEntries}`);
+  }
+  if (!SESSION_STATE_STORES.includes(config.sessionStateStore)) {
+    errors.push(`Unknown session state store: ${config.sessionStateStore}`);
+  }
+  if (!(config.sessionIdleTimeoutMs >= 0)) {
+    errors.push(`Invalid session idle timeout: ${config.sessionIdleTimeoutMs}`);
+  }
+
+  if (!QUEUE_OVERFLOW_POLICIES.includes(config.queueOverflow)) {
+    errors.push(`Unknown queue overflow policy: ${config.queueOverflow}`);
+  }
+
+  if (!USER_ID_SOURCES.includes(config.userIdSource)) {
+    errors.push(`Unknown userId source: ${config.userIdSource}`);
+  }
+
+  if (!SUBAGENT_TRACE_MODES.includes(config.subagentTraces)) {
+    errors.push(`Unknown subagent trace mode: ${config.subagentTraces}`);
+  }
+
+  for (const [model, price] of Object.entries(config.modelPricing)) {
+    const prices = [
+      price?.input,
+      price?.output,
+      price?.cacheRead,
+      price?.cacheWrite,
+      price?.reasoning,
+    ];
+    const valid =
+      typeof price?.input === 'number' &&
+      typeof price?.output === 'number' &&
+      prices.every((p) => p === undefined || (typeof p === 'number' && p >= 0));
+    if (!valid) {
+      errors.push(`Invalid price for model: ${model}`);
+    }
+  }
+
+  if (config.exportMode !== 'off' && config.exporters.includes('langfuse')) {
     if (!config.publicKey) {
       errors.push('LANGFUSE_PUBLIC_KEY is required');
     }
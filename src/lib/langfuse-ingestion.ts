@@ -0,0 +1,112 @@
+/**
+ * Langfuse ingestion API payloads.
+ *
+ * Builds `/api/public/ingestion` batches and interprets their 207 multi-status
+ * responses without depending on the Langfuse SDK. Create events are upserts:
+ * Langfuse merges events with the same body id.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+export type IngestionEventType = 'trace-create' | 'generation-create' | 'span-create';
+
+export interface IngestionEvent {
+  /** Event id, used to match per-event results */
+  id: string;
+  type: IngestionEventType;
+  /** ISO timestamp of when the event was created */
+  timestamp: string;
+  body: Record<string, unknown>;
+}
+
+/**
+ * An event Langfuse did not accept.
+ */
+export interface IngestionFailure {
+  event: IngestionEvent;
+  status: number;
+  message: string;
+}
+
+interface IngestionResponseBody {
+  successes?: Array<{ id: string; status: number }>;
+  errors?: Array<{ id: string; status: number; message?: string; error?: unknown }>;
+}
+
+/**
+ * Get the ingestion endpoint for a Langfuse host.
+ */
+export function getIngestionUrl(host: string): string {
+  return `${host.replace(/\/+$/, '')}/api/public/ingestion`;
+}
+
+/**
+ * Get the health check endpoint for a Langfuse host.
+ */
+export function getHealthUrl(host: string): string {
+  return `${host.replace(/\/+$/, '')}/api/public/health`;
+}
+
+/**
+ * Get the Basic auth header for a Langfuse key pair.
+ */
+export function getAuthorizationHeader(publicKey: string, secretKey: string): string {
+  return `Basic ${Buffer.from(`${publicKey}:${secretKey}`, 'utf-8').toString('base64')}`;
+}
+
+/**
+ * Create an ingestion event. Bodies without an id get a generated one.
+ */
+export function createIngestionEvent(
+  type: IngestionEventType,
+  body: Record<string, unknown>
+): IngestionEvent {
+  return {
+    id: randomUUID(),
+    type,
+    timestamp: new Date().toISOString(),
+    body: { ...body, id: body.id ?? randomUUID() },
+  };
+}
+
+/**
+ * Serialize a batch request body.
+ */
+export function encodeIngestionBatch(events: IngestionEvent[]): string {
+  return JSON.stringify({ batch: events, metadata: { sdk_name: 'opencode-langfuse-exporter' } });
+}
+
+/**
+ * Whether an HTTP status (of the request or of a single event) is worth retrying.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Match the per-event errors of a 207 response to the events sent.
+ * A body without errors (e.g. a plain 200) means every event was accepted.
+ */
+export function parseIngestionResponse(
+  events: IngestionEvent[],
+  body: unknown
+): IngestionFailure[] {
+  const errors = (body as IngestionResponseBody | undefined)?.errors;
+  if (!Array.isArray(errors)) return [];
+
+  const byId = new Map(events.map((event) => [event.id, event]));
+  const failures: IngestionFailure[] = [];
+
+  for (const error of errors) {
+    const event = byId.get(error.id);
+    if (!event) continue;
+    const detail = typeof error.error === 'string' ? error.error : JSON.stringify(error.error);
+    failures.push({
+      event,
+      status: error.status,
+      message: error.message ?? detail ?? `status ${error.status}`,
+    });
+  }
+
+  return failures;
+}
@@ -0,0 +1,238 @@
+/**
+ * Local trace store for offline use.
+ *
+ * Writes every trace/observation payload to daily-rotated JSONL files under
+ * `<spoolDir>/local`, with an index of which days hold each session and model.
+ * Upserts are appended as-is: a later record for the same id updates earlier ones.
+ *
+ * Retention follows the same rules as the audit log (retentionDays, maxSpoolSizeMB).
+ */
+
+import { appendFile, mkdir, readFile, readdir, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { cleanupJsonlFiles } from './audit-log';
+import type { LangfuseExporterConfig } from './config';
+
+/** Subdirectory of spoolDir holding the local store */
+export const LOCAL_STORE_DIR = 'local';
+
+/** Prefix of the daily record files */
+const RECORD_FILE_PREFIX = 'traces-';
+
+/** Index file name */
+const INDEX_FILE = 'index.json';
+
+/**
+ * One stored trace or observation payload.
+ */
+export interface LocalRecord {
+  /** When the record was written */
+  readonly timestamp: number;
+  readonly kind: 'trace' | 'generation' | 'span';
+  /** Trace or observation id */
+  readonly id: string;
+  readonly traceId: string;
+  readonly sessionId?: string;
+  readonly model?: string;
+  /** Exact payload passed to the exporter */
+  readonly data: Record<string, unknown>;
+}
+
+/**
+ * Index of record files by session, model and date.
+ */
+export interface LocalStoreIndex {
+  sessions: Record<string, { traceId: string; name?: string; dates: string[] }>;
+  models: Record<string, string[]>;
+  dates: Record<string, { file: string; records: number }>;
+}
+
+/**
+ * Filters for querying the local store. All filters are combined.
+ */
+export interface LocalStoreQuery {
+  sessionId?: string;
+  model?: string;
+  /** Day in YYYY-MM-DD format */
+  date?: string;
+}
+
+/**
+ * Get the local store directory.
+ */
+export function getLocalStoreDir(config: LangfuseExporterConfig): string {
+  return join(config.spoolDir, LOCAL_STORE_DIR);
+}
+
+/**
+ * Get the day (YYYY-MM-DD, UTC) a timestamp falls on.
+ */
+export function toDateKey(timestamp: number): string {
+  return new Date(timestamp).toISOString().split('T')[0];
+}
+
+/**
+ * Get the record file name for a day.
+ */
+export function getRecordFilename(date: string): string {
+  return `${RECORD_FILE_PREFIX}${date}.jsonl`;
+}
+
+/**
+ * Create an empty index.
+ */
+export function createEmptyIndex(): LocalStoreIndex {
+  return { sessions: {}, models: {}, dates: {} };
+}
+
+function addDate(dates: string[], date: string): void {
+  if (!dates.includes(date)) dates.push(date);
+}
+
+/**
+ * Record a written record in the index (mutates the index).
+ */
+export function indexRecord(index: LocalStoreIndex, record: LocalRecord, name?: string): void {
+  const date = toDateKey(record.timestamp);
+
+  const day = (index.dates[date] ??= { file: getRecordFilename(date), records: 0 });
+  day.records++;
+
+  if (record.sessionId) {
+    const session = (index.sessions[record.sessionId] ??= {
+      traceId: record.traceId,
+      dates: [],
+    });
+    if (name) session.name = name;
+    addDate(session.dates, date);
+  }
+
+  if (record.model) {
+    addDate((index.models[record.model] ??= []), date);
+  }
+}
+
+/**
+ * Load the index, returning an empty one if missing or unreadable.
+ */
+export async function readLocalIndex(dir: string): Promise<LocalStoreIndex> {
+  try {
+    const content = await readFile(join(dir, INDEX_FILE), 'utf-8');
+    return { ...createEmptyIndex(), ...(JSON.parse(content) as Partial<LocalStoreIndex>) };
+  } catch {
+    return createEmptyIndex();
+  }
+}
+
+/**
+ * Write the index atomically (temp file + rename).
+ */
+export async function writeLocalIndex(dir: string, index: LocalStoreIndex): Promise<void> {
+  const tmpPath = join(dir, `${INDEX_FILE}.tmp`);
+  await writeFile(tmpPath, JSON.stringify(index, null, 2), 'utf-8');
+  await rename(tmpPath, join(dir, INDEX_FILE));
+}
+
+/**
+ * Append records to their daily files.
+ */
+export async function appendLocalRecords(dir: string, records: LocalRecord[]): Promise<void> {
+  const byFile = new Map<string, string>();
+  for (const record of records) {
+    const file = getRecordFilename(toDateKey(record.timestamp));
+    byFile.set(file, (byFile.get(file) ?? '') + `${JSON.stringify(record)}\n`);
+  }
+
+  await mkdir(dir, { recursive: true });
+  for (const [file, lines] of byFile) {
+    await appendFile(join(dir, file), lines, 'utf-8');
+  }
+}
+
+/**
+ * Apply retention to the record files and drop index entries for deleted days.
+ */
+export async function cleanupLocalStore(config: LangfuseExporterConfig): Promise<void> {
+  const dir = getLocalStoreDir(config);
+  await cleanupJsonlFiles(dir, RECORD_FILE_PREFIX, config);
+
+  let files: string[];
+  try {
+    files = await readdir(dir);
+  } catch {
+    return;
+  }
+
+  const index = await readLocalIndex(dir);
+  const kept = new Set(Object.keys(index.dates).filter((d) => files.includes(index.dates[d].file)));
+  if (kept.size === Object.keys(index.dates).length) return;
+
+  for (const date of Object.keys(index.dates)) {
+    if (!kept.has(date)) delete index.dates[date];
+  }
+  for (const [sessionId, session] of Object.entries(index.sessions)) {
+    session.dates = session.dates.filter((d) => kept.has(d));
+    if (session.dates.length === 0) delete index.sessions[sessionId];
+  }
+  for (const [model, dates] of Object.entries(index.models)) {
+    const remaining = dates.filter((d) => kept.has(d));
+    if (remaining.length === 0) delete index.models[model];
+    else index.models[model] = remaining;
+  }
+
+  try {
+    await writeLocalIndex(dir, index);
+  } catch {
+    // Stale index entries only cost an extra file lookup - not critical
+  }
+}
+
+/**
+ * Read stored records matching a query, oldest first.
+ * The index narrows down which daily files are read.
+ */
+export async function queryLocalStore(
+  config: LangfuseExporterConfig,
+  query: LocalStoreQuery = {}
+): Promise<LocalRecord[]> {
+  const dir = getLocalStoreDir(config);
+  const index = await readLocalIndex(dir);
+
+  let dates = Object.keys(index.dates);
+  if (query.date) dates = dates.filter((d) => d === query.date);
+  if (query.sessionId) {
+    const sessionDates = index.sessions[query.sessionId]?.dates ?? [];
+    dates = dates.filter((d) => sessionDates.includes(d));
+  }
+  if (query.model) {
+    const modelDates = index.models[query.model] ?? [];
+    dates = dates.filter((d) => modelDates.includes(d));
+  }
+
+  const traceId = query.sessionId ? index.sessions[query.sessionId]?.traceId : undefined;
+  const records: LocalRecord[] = [];
+
+  for (const date of dates.sort()) {
+    let content: string;
+    try {
+      content = await readFile(join(dir, index.dates[date].file), 'utf-8');
+    } catch {
+      continue;
+    }
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as LocalRecord;
+        if (query.sessionId && record.traceId !== traceId) continue;
+        if (query.model && record.model !== query.model) continue;
+        records.push(record);
+      } catch {
+        // Skip a torn line from an interrupted write
+      }
+    }
+  }
+
+  return records;
+}
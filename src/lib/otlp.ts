@@ -0,0 +1,280 @@
+/**
+ * OTLP trace payload model and serialization.
+ *
+ * Encodes ExportTraceServiceRequest as OTLP/HTTP JSON or protobuf without
+ * depending on the OpenTelemetry SDK. Only the subset of the trace proto
+ * used by the exporter is supported.
+ */
+
+export type OtlpAttributeValue = string | number | boolean | string[];
+
+export type OtlpAttributes = Record<string, OtlpAttributeValue | undefined>;
+
+/** Span kind values from the OTLP trace proto */
+export const SpanKind = {
+  INTERNAL: 1,
+  SERVER: 2,
+  CLIENT: 3,
+} as const;
+
+/** Status code values from the OTLP trace proto */
+export const StatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const;
+
+export interface OtlpSpan {
+  /** 32 hex chars */
+  traceId: string;
+  /** 16 hex chars */
+  spanId: string;
+  /** 16 hex chars, omitted for root spans */
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeMs: number;
+  endTimeMs: number;
+  attributes: OtlpAttributes;
+  status?: { code: number; message?: string };
+}
+
+export interface OtlpScope {
+  name: string;
+  version?: string;
+}
+
+/**
+ * Convert milliseconds since epoch to nanoseconds.
+ */
+function toNanos(ms: number): bigint {
+  return BigInt(Math.round(ms)) * 1_000_000n;
+}
+
+/**
+ * Drop undefined attributes so they aren't sent as empty values.
+ */
+function definedAttributes(attributes: OtlpAttributes): Array<[string, OtlpAttributeValue]> {
+  return Object.entries(attributes).filter(
+    (entry): entry is [string, OtlpAttributeValue] => entry[1] !== undefined
+  );
+}
+
+// ============================================================
+// JSON
+// ============================================================
+
+function jsonAnyValue(value: OtlpAttributeValue): Record<string, unknown> {
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map((v) => ({ stringValue: v })) } };
+  }
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+function jsonAttributes(attributes: OtlpAttributes): Array<Record<string, unknown>> {
+  return definedAttributes(attributes).map(([key, value]) => ({
+    key,
+    value: jsonAnyValue(value),
+  }));
+}
+
+/**
+ * Serialize spans as an OTLP/HTTP JSON ExportTraceServiceRequest.
+ */
+export function encodeTraceRequestJson(
+  resource: OtlpAttributes,
+  scope: OtlpScope,
+  spans: readonly OtlpSpan[]
+): string {
+  return JSON.stringify({
+    resourceSpans: [
+      {
+        resource: { attributes: jsonAttributes(resource) },
+        scopeSpans: [
+          {
+            scope,
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              parentSpanId: span.parentSpanId,
+              name: span.name,
+              kind: span.kind,
+              startTimeUnixNano: toNanos(span.startTimeMs).toString(),
+              endTimeUnixNano: toNanos(span.endTimeMs).toString(),
+              attributes: jsonAttributes(span.attributes),
+              status: span.status,
+            })),
+          },
+        ],
+      },
+    ],
+  });
+}
+
+// ============================================================
+// PROTOBUF
+// ============================================================
+
+/**
+ * Minimal protobuf writer for the wire types OTLP needs.
+ */
+class ProtoWriter {
+  private readonly chunks: Uint8Array[] = [];
+
+  private push(bytes: number[] | Uint8Array): void {
+    this.chunks.push(bytes instanceof Uint8Array ? bytes : Uint8Array.from(bytes));
+  }
+
+  private varint(value: bigint): void {
+    const bytes: number[] = [];
+    let v = BigInt.asUintN(64, value);
+    while (v > 0x7fn) {
+      bytes.push(Number(v & 0x7fn) | 0x80);
+      v >>= 7n;
+    }
+    bytes.push(Number(v));
+    this.push(bytes);
+  }
+
+  private tag(field: number, wireType: number): void {
+    this.varint(BigInt((field << 3) | wireType));
+  }
+
+  uint(field: number, value: number | bigint): this {
+    this.tag(field, 0);
+    this.varint(BigInt(value));
+    return this;
+  }
+
+  bool(field: number, value: boolean): this {
+    return this.uint(field, value ? 1 : 0);
+  }
+
+  fixed64(field: number, value: bigint): this {
+    const buffer = new DataView(new ArrayBuffer(8));
+    buffer.setBigUint64(0, value, true);
+    this.tag(field, 1);
+    this.push(new Uint8Array(buffer.buffer));
+    return this;
+  }
+
+  double(field: number, value: number): this {
+    const buffer = new DataView(new ArrayBuffer(8));
+    buffer.setFloat64(0, value, true);
+    this.tag(field, 1);
+    this.push(new Uint8Array(buffer.buffer));
+    return this;
+  }
+
+  bytes(field: number, value: Uint8Array): this {
+    this.tag(field, 2);
+    this.varint(BigInt(value.length));
+    this.push(value);
+    return this;
+  }
+
+  string(field: number, value: string): this {
+    return this.bytes(field, Buffer.from(value, 'utf-8'));
+  }
+
+  message(field: number, build: (writer: ProtoWriter) => void): this {
+    const nested = new ProtoWriter();
+    build(nested);
+    return this.bytes(field, nested.finish());
+  }
+
+  finish(): Uint8Array<ArrayBuffer> {
+    const length = this.chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const out = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      out.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return out;
+  }
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  return Uint8Array.from(Buffer.from(hex, 'hex'));
+}
+
+function protoAnyValue(writer: ProtoWriter, value: OtlpAttributeValue): void {
+  // AnyValue: string=1, bool=2, int=3, double=4, array=5
+  if (Array.isArray(value)) {
+    writer.message(5, (array) => {
+      for (const item of value) {
+        array.message(1, (any) => any.string(1, item));
+      }
+    });
+  } else if (typeof value === 'boolean') {
+    writer.bool(2, value);
+  } else if (typeof value === 'number') {
+    if (Number.isInteger(value)) writer.uint(3, BigInt(value));
+    else writer.double(4, value);
+  } else {
+    writer.string(1, value);
+  }
+}
+
+function protoAttributes(writer: ProtoWriter, field: number, attributes: OtlpAttributes): void {
+  // KeyValue: key=1, value=2
+  for (const [key, value] of definedAttributes(attributes)) {
+    writer.message(field, (kv) => {
+      kv.string(1, key);
+      kv.message(2, (any) => protoAnyValue(any, value));
+    });
+  }
+}
+
+function protoSpan(writer: ProtoWriter, span: OtlpSpan): void {
+  // Span: trace_id=1, span_id=2, parent_span_id=4, name=5, kind=6,
+  // start=7, end=8, attributes=9, status=15
+  writer.bytes(1, hexToBytes(span.traceId));
+  writer.bytes(2, hexToBytes(span.spanId));
+  if (span.parentSpanId) writer.bytes(4, hexToBytes(span.parentSpanId));
+  writer.string(5, span.name);
+  writer.uint(6, span.kind);
+  writer.fixed64(7, toNanos(span.startTimeMs));
+  writer.fixed64(8, toNanos(span.endTimeMs));
+  protoAttributes(writer, 9, span.attributes);
+  if (span.status) {
+    const status = span.status;
+    // Status: message=2, code=3
+    writer.message(15, (s) => {
+      if (status.message) s.string(2, status.message);
+      s.uint(3, status.code);
+    });
+  }
+}
+
+/**
+ * Serialize spans as an OTLP/HTTP protobuf ExportTraceServiceRequest.
+ */
+export function encodeTraceRequestProtobuf(
+  resource: OtlpAttributes,
+  scope: OtlpScope,
+  spans: readonly OtlpSpan[]
+): Uint8Array<ArrayBuffer> {
+  // ExportTraceServiceRequest: resource_spans=1
+  // ResourceSpans: resource=1, scope_spans=2; Resource: attributes=1
+  // ScopeSpans: scope=1, spans=2; InstrumentationScope: name=1, version=2
+  return new ProtoWriter()
+    .message(1, (resourceSpans) => {
+      resourceSpans.message(1, (r) => protoAttributes(r, 1, resource));
+      resourceSpans.message(2, (scopeSpans) => {
+        scopeSpans.message(1, (s) => {
+          s.string(1, scope.name);
+          if (scope.version) s.string(2, scope.version);
+        });
+        for (const span of spans) {
+          scopeSpans.message(2, (w) => protoSpan(w, span));
+        }
+      });
+    })
+    .finish();
+}
@@ -0,0 +1,115 @@
+/**
+ * Model pricing for estimating generation cost.
+ *
+ * OpenCode reports a cost of 0 for many providers (local models, some gateways,
+ * subscription plans). For those, the cost is estimated from the token usage
+ * and a pricing catalog: the bundled model-pricing.json merged with the
+ * `modelPricing` overrides from the config.
+ *
+ * Catalog keys are `provider/model` strings, prices are USD per million tokens.
+ */
+
+import type { LangfuseExporterConfig, ModelPrice } from './config';
+import bundledPricing from './model-pricing.json';
+
+export type PricingCatalog = ReadonlyMap<string, ModelPrice>;
+
+/**
+ * Token counts priced by the catalog. Input tokens exclude cache reads and writes.
+ */
+export interface PricedUsage {
+  readonly promptTokens?: number;
+  readonly completionTokens?: number;
+  readonly reasoningTokens?: number;
+  readonly cacheReadTokens?: number;
+  readonly cacheWriteTokens?: number;
+}
+
+/**
+ * Cost of a generation and whether OpenCode reported it or it was estimated.
+ */
+export interface ResolvedCost {
+  /** Langfuse costDetails in USD, with a `total` */
+  readonly details: Record<string, number>;
+  readonly source: 'reported' | 'estimated';
+}
+
+/**
+ * Build the pricing catalog, with config overrides replacing bundled entries.
+ */
+export function loadPricingCatalog(config: LangfuseExporterConfig): PricingCatalog {
+  return new Map(
+    Object.entries({ ...(bundledPricing as Record<string, ModelPrice>), ...config.modelPricing })
+  );
+}
+
+/**
+ * Drop a date or `-latest` suffix, e.g. `claude-sonnet-4-5-20250929` -> `claude-sonnet-4-5`.
+ */
+function stripVersionSuffix(model: string): string {
+  return model.replace(/(-\d{8}|-latest)$/, '');
+}
+
+/**
+ * Find the price of a `provider/model` string.
+ *
+ * Tries the exact key, then without a version suffix, then the same model
+ * under any provider (gateways reselling a model under their own provider ID).
+ */
+export function findModelPrice(catalog: PricingCatalog, model: string): ModelPrice | undefined {
+  const exact = catalog.get(model) ?? catalog.get(stripVersionSuffix(model));
+  if (exact) return exact;
+
+  const separator = model.indexOf('/');
+  if (separator === -1) return undefined;
+  const modelId = stripVersionSuffix(model.slice(separator + 1));
+
+  for (const [key, price] of catalog) {
+    if (key.slice(key.indexOf('/') + 1) === modelId) return price;
+  }
+  return undefined;
+}
+
+/**
+ * Estimate the cost of token usage per token type. Reasoning tokens are
+ * billed at the output price unless the model has a reasoning price.
+ */
+export function estimateCost(price: ModelPrice, usage: PricedUsage): Record<string, number> {
+  const perToken = (pricePerMillion: number | undefined, tokens: number | undefined) =>
+    ((pricePerMillion ?? 0) * (tokens ?? 0)) / 1_000_000;
+
+  const details: Record<string, number> = {};
+  const add = (key: string, cost: number) => {
+    if (cost > 0) details[key] = cost;
+  };
+
+  add('input', perToken(price.input, usage.promptTokens));
+  add('output', perToken(price.output, usage.completionTokens));
+  add('reasoning', perToken(price.reasoning ?? price.output, usage.reasoningTokens));
+  add('cache_read', perToken(price.cacheRead ?? price.input, usage.cacheReadTokens));
+  add('cache_write', perToken(price.cacheWrite ?? price.input, usage.cacheWriteTokens));
+  details.total = Object.values(details).reduce((sum, cost) => sum + cost, 0);
+
+  return details;
+}
+
+/**
+ * Resolve the cost of a generation: the reported cost when OpenCode has one,
+ * otherwise an estimate from the catalog. Undefined when neither is available.
+ */
+export function resolveCost(
+  catalog: PricingCatalog,
+  model: string | undefined,
+  cost: number | undefined,
+  usage: PricedUsage | undefined
+): ResolvedCost | undefined {
+  if (cost !== undefined && cost > 0) {
+    return { details: { total: cost }, source: 'reported' };
+  }
+
+  const price = model ? findModelPrice(catalog, model) : undefined;
+  if (!price || !usage) return undefined;
+
+  const details = estimateCost(price, usage);
+  return details.total > 0 ? { details, source: 'estimated' } : undefined;
+}
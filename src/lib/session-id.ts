@@ -53,6 +53,25 @@ export function generateTraceId(sessionId: string, messageId?: string): string {
   return sessionToUUID(input);
 }
 
+/**
+ * Generates a deterministic Langfuse observation ID for an OpenCode entity.
+ * The same session, kind and identifiers always produce the same ID, so
+ * re-processing an event (e.g. after a restart) upserts the existing
+ * observation instead of creating a duplicate.
+ *
+ * @param sessionId - The OpenCode session ID
+ * @param kind - Type of observation (e.g., 'message', 'step', 'tool')
+ * @param identifiers - Entity identifiers, outermost first (e.g., messageId, callId)
+ * @returns A deterministic UUID-formatted observation ID
+ */
+export function generateObservationId(
+  sessionId: string,
+  kind: string,
+  ...identifiers: Array<string | number>
+): string {
+  return sessionToUUID([sessionId, kind, ...identifiers].join(':'));
+}
+
 /**
  * Generates a deterministic idempotency key for deduplication.
  * Uses session ID, event type, and identifier to create a unique key.
@@ -0,0 +1,55 @@
+/**
+ * Ownership of files in the spool directory.
+ *
+ * Several processes can share a spoolDir (e.g. two OpenCode windows). Each
+ * names its files after its pid, so a file is only taken over once the
+ * process (or, in this process, the component) that writes it is gone.
+ */
+
+import { appendFile, readFile, rename, unlink } from 'node:fs/promises';
+
+/**
+ * Name of the file a spool file belongs to, without a claim suffix
+ * (e.g. `.adopting`) left by an interrupted adoption.
+ */
+export function spoolFileOwner(file: string): string {
+  return file.replace(/\.jsonl.*$/, '.jsonl');
+}
+
+/**
+ * Whether the owner of a spool file may still be writing it: its process is
+ * alive and, for this process, `openFiles` still has the file.
+ */
+export function isSpoolFileInUse(
+  owner: string,
+  pid: number,
+  openFiles: ReadonlySet<string>
+): boolean {
+  if (pid === process.pid) return openFiles.has(owner);
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as { code?: string }).code === 'EPERM';
+  }
+}
+
+/**
+ * Move the lines of an abandoned spool file to the end of `target` and return them.
+ * Renaming claims the file first, in case another process is adopting it too.
+ */
+export async function adoptSpoolFile(path: string, target: string): Promise<string> {
+  const claimed = `${target}.adopting`;
+  try {
+    await rename(path, claimed);
+    const content = await readFile(claimed, 'utf-8');
+    // Terminate a torn last line so it can't swallow the next line
+    const lines = content && !content.endsWith('\n') ? `${content}\n` : content;
+    await appendFile(target, lines, 'utf-8');
+    await unlink(claimed);
+    return lines;
+  } catch {
+    return '';
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Resolve the userId attached to traces.
+ *
+ * Sources:
+ * - env: OPENCODE_LANGFUSE_USER_ID (or `userId` in the plugin config)
+ * - git: `git config user.email`
+ * - os: the OS username
+ * - auto: the first of env, git and os that yields a value
+ */
+
+import { execFile } from 'node:child_process';
+import { userInfo } from 'node:os';
+
+import type { LangfuseExporterConfig, UserIdSource } from './config';
+
+/** Upper bound for the `git config` lookup, so a hung git can't delay startup */
+const GIT_TIMEOUT_MS = 2000;
+
+function fromGit(): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    execFile('git', ['config', 'user.email'], { timeout: GIT_TIMEOUT_MS }, (error, stdout) => {
+      resolve(error ? undefined : stdout.trim() || undefined);
+    });
+  });
+}
+
+function fromOs(): string | undefined {
+  try {
+    return userInfo().username || undefined;
+  } catch {
+    return undefined; // No passwd entry for the current uid
+  }
+}
+
+async function fromSource(
+  source: Exclude<UserIdSource, 'auto'>,
+  config: LangfuseExporterConfig
+): Promise<string | undefined> {
+  switch (source) {
+    case 'env':
+      return config.userId || undefined;
+    case 'git':
+      return fromGit();
+    case 'os':
+      return fromOs();
+    case 'none':
+      return undefined;
+  }
+}
+
+/**
+ * Resolve the configured userId source. Never throws; returns undefined if
+ * the source has no value.
+ */
+export async function resolveUserId(config: LangfuseExporterConfig): Promise<string | undefined> {
+  if (config.userIdSource !== 'auto') {
+    return fromSource(config.userIdSource, config);
+  }
+
+  for (const source of ['env', 'git', 'os'] as const) {
+    const userId = await fromSource(source, config);
+    if (userId) return userId;
+  }
+  return undefined;
+}
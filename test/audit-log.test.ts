@@ -34,6 +34,22 @@ function createTestConfig(spoolDir: string): LangfuseExporterConfig {
     traceNamePrefix: '',
     verbose: false,
     enabled: true,
+    excludeReasoning: false,
+    processedIdsStore: 'memory',
+    processedIdsMaxEntries: 10000,
+    debounceMs: 10000,
+    exporters: ['langfuse'],
+    otlpEndpoint: 'http://localhost:4318/v1/traces',
+    otlpProtocol: 'http/json',
+    otlpHeaders: {},
+    queueOverflow: 'sliding',
+    sessionStateStore: 'persistent',
+    sessionIdleTimeoutMs: 1800000,
+    generationInputTurns: 1,
+    userId: '',
+    userIdSource: 'auto',
+    modelPricing: {},
+    subagentTraces: 'nested',
   };
 }
 
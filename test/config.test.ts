@@ -3,7 +3,18 @@
  */
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 
-import { getInvalidPatterns, loadConfig, validateConfig } from '../src/lib/config';
+import {
+  getInvalidPatterns,
+  loadConfig,
+  validateConfig,
+  type ExporterKind,
+  type ModelPrice,
+  type ProcessedIdsStore,
+  type QueueOverflowPolicy,
+  type SessionStateStore,
+  type SubagentTraceMode,
+  type UserIdSource,
+} from '../src/lib/config';
 
 describe('loadConfig', () => {
   // Store original env
@@ -23,6 +34,22 @@ describe('loadConfig', () => {
     delete process.env.OPENCODE_LANGFUSE_TRACE_PREFIX;
     delete process.env.OPENCODE_LANGFUSE_VERBOSE;
     delete process.env.OPENCODE_LANGFUSE_ENABLED;
+    delete process.env.OPENCODE_LANGFUSE_EXCLUDE_REASONING;
+    delete process.env.OPENCODE_LANGFUSE_PROCESSED_IDS_STORE;
+    delete process.env.OPENCODE_LANGFUSE_PROCESSED_IDS_MAX;
+    delete process.env.OPENCODE_LANGFUSE_DEBOUNCE_MS;
+    delete process.env.OPENCODE_LANGFUSE_EXPORTERS;
+    delete process.env.OPENCODE_LANGFUSE_OTLP_ENDPOINT;
+    delete process.env.OPENCODE_LANGFUSE_OTLP_PROTOCOL;
+    delete process.env.OPENCODE_LANGFUSE_OTLP_HEADERS;
+    delete process.env.OPENCODE_LANGFUSE_QUEUE_OVERFLOW;
+    delete process.env.OPENCODE_LANGFUSE_SESSION_STATE_STORE;
+    delete process.env.OPENCODE_LANGFUSE_SESSION_IDLE_MS;
+    delete process.env.OPENCODE_LANGFUSE_GENERATION_INPUT_TURNS;
+    delete process.env.OPENCODE_LANGFUSE_USER_ID;
+    delete process.env.OPENCODE_LANGFUSE_USER_ID_SOURCE;
+    delete process.env.OPENCODE_LANGFUSE_MODEL_PRICING;
+    delete process.env.OPENCODE_LANGFUSE_SUBAGENT_TRACES;
   });
 
   afterEach(() => {
@@ -73,6 +100,97 @@ describe('loadConfig', () => {
       const config = loadConfig();
       expect(config.enabled).toBe(true);
     });
+
+    it('should load processed IDs store settings from env vars', () => {
+      process.env.OPENCODE_LANGFUSE_PROCESSED_IDS_STORE = 'persistent';
+      process.env.OPENCODE_LANGFUSE_PROCESSED_IDS_MAX = '500';
+      const config = loadConfig();
+      expect(config.processedIdsStore).toBe('persistent');
+      expect(config.processedIdsMaxEntries).toBe(500);
+    });
+
+    it('should load excludeReasoning from env var', () => {
+      process.env.OPENCODE_LANGFUSE_EXCLUDE_REASONING = 'true';
+      const config = loadConfig();
+      expect(config.excludeReasoning).toBe(true);
+    });
+
+    it('should load debounce duration from env var', () => {
+      process.env.OPENCODE_LANGFUSE_DEBOUNCE_MS = '2500';
+      const config = loadConfig();
+      expect(config.debounceMs).toBe(2500);
+    });
+
+    it('should parse a comma-separated exporter list', () => {
+      process.env.OPENCODE_LANGFUSE_EXPORTERS = ' Langfuse, custom ';
+      const config = loadConfig();
+      expect(config.exporters).toEqual(['langfuse', 'custom']);
+    });
+
+    it('should load OTLP settings from env vars', () => {
+      process.env.OPENCODE_LANGFUSE_OTLP_ENDPOINT = 'https://collector.internal/v1/traces';
+      process.env.OPENCODE_LANGFUSE_OTLP_PROTOCOL = 'http/protobuf';
+      process.env.OPENCODE_LANGFUSE_OTLP_HEADERS = 'authorization=Bearer%20abc, x-team=ai';
+      const config = loadConfig();
+      expect(config.otlpEndpoint).toBe('https://collector.internal/v1/traces');
+      expect(config.otlpProtocol).toBe('http/protobuf');
+      expect(config.otlpHeaders).toEqual({ authorization: 'Bearer abc', 'x-team': 'ai' });
+    });
+
+    it('should load the queue overflow policy from env var', () => {
+      expect(loadConfig().queueOverflow).toBe('sliding');
+
+      process.env.OPENCODE_LANGFUSE_QUEUE_OVERFLOW = ' Spill ';
+      expect(loadConfig().queueOverflow).toBe('spill');
+    });
+
+    it('should load the session state store from env var', () => {
+      expect(loadConfig().sessionStateStore).toBe('persistent');
+
+      process.env.OPENCODE_LANGFUSE_SESSION_STATE_STORE = 'memory';
+      expect(loadConfig().sessionStateStore).toBe('memory');
+    });
+
+    it('should load the session idle timeout from env var', () => {
+      expect(loadConfig().sessionIdleTimeoutMs).toBe(30 * 60 * 1000);
+
+      process.env.OPENCODE_LANGFUSE_SESSION_IDLE_MS = '0';
+      expect(loadConfig().sessionIdleTimeoutMs).toBe(0);
+    });
+
+    it('should load the generation input turns from env var', () => {
+      expect(loadConfig().generationInputTurns).toBe(1);
+
+      process.env.OPENCODE_LANGFUSE_GENERATION_INPUT_TURNS = '3';
+      expect(loadConfig().generationInputTurns).toBe(3);
+    });
+
+    it('should load the userId settings from env vars', () => {
+      expect(loadConfig().userIdSource).toBe('auto');
+
+      process.env.OPENCODE_LANGFUSE_USER_ID = 'dev@example.com';
+      process.env.OPENCODE_LANGFUSE_USER_ID_SOURCE = 'Git';
+      const config = loadConfig();
+      expect(config.userId).toBe('dev@example.com');
+      expect(config.userIdSource).toBe('git');
+    });
+
+    it('should load model pricing overrides from env var', () => {
+      expect(loadConfig().modelPricing).toEqual({});
+
+      process.env.OPENCODE_LANGFUSE_MODEL_PRICING = '{"ollama/llama3":{"input":0.1,"output":0.2}}';
+      expect(loadConfig().modelPricing).toEqual({ 'ollama/llama3': { input: 0.1, output: 0.2 } });
+
+      process.env.OPENCODE_LANGFUSE_MODEL_PRICING = 'not json';
+      expect(loadConfig({ modelPricing: {} }).modelPricing).toEqual({});
+    });
+
+    it('should load the subagent trace mode from env var', () => {
+      expect(loadConfig().subagentTraces).toBe('nested');
+
+      process.env.OPENCODE_LANGFUSE_SUBAGENT_TRACES = 'Linked';
+      expect(loadConfig().subagentTraces).toBe('linked');
+    });
   });
 
   describe('default values', () => {
@@ -106,6 +224,27 @@ describe('loadConfig', () => {
       expect(config.verbose).toBe(false);
     });
 
+    it('should default to the in-memory processed IDs store', () => {
+      const config = loadConfig();
+      expect(config.processedIdsStore).toBe('memory');
+      expect(config.processedIdsMaxEntries).toBe(10000);
+    });
+
+    it('should default excludeReasoning to false', () => {
+      const config = loadConfig();
+      expect(config.excludeReasoning).toBe(false);
+    });
+
+    it('should default debounce to 10 seconds', () => {
+      const config = loadConfig();
+      expect(config.debounceMs).toBe(10000);
+    });
+
+    it('should default to the langfuse exporter', () => {
+      const config = loadConfig();
+      expect(config.exporters).toEqual(['langfuse']);
+    });
+
     it('should use HOME-based spool dir by default', () => {
       const config = loadConfig();
       expect(config.spoolDir).toContain('.opencode/langfuse-spool');
@@ -193,6 +332,22 @@ describe('validateConfig', () => {
       traceNamePrefix: '',
       verbose: false,
       enabled: true,
+      excludeReasoning: false,
+      processedIdsStore: 'memory' as const,
+      processedIdsMaxEntries: 10000,
+      debounceMs: 10000,
+      exporters: ['langfuse' as const],
+      otlpEndpoint: 'http://localhost:4318/v1/traces',
+      otlpProtocol: 'http/json' as const,
+      otlpHeaders: {},
+      queueOverflow: 'sliding' as const,
+      sessionStateStore: 'persistent' as const,
+      sessionIdleTimeoutMs: 1800000,
+      generationInputTurns: 1,
+      userId: '',
+      userIdSource: 'auto' as const,
+      modelPricing: {},
+      subagentTraces: 'nested' as const,
     };
 
     const errors = validateConfig(config);
@@ -214,6 +369,22 @@ describe('validateConfig', () => {
       traceNamePrefix: '',
       verbose: false,
       enabled: true,
+      excludeReasoning: false,
+      processedIdsStore: 'memory' as const,
+      processedIdsMaxEntries: 10000,
+      debounceMs: 10000,
+      exporters: ['langfuse' as const],
+      otlpEndpoint: 'http://localhost:4318/v1/traces',
+      otlpProtocol: 'http/json' as const,
+      otlpHeaders: {},
+      queueOverflow: 'sliding' as const,
+      sessionStateStore: 'persistent' as const,
+      sessionIdleTimeoutMs: 1800000,
+      generationInputTurns: 1,
+      userId: '',
+      userIdSource: 'auto' as const,
+      modelPricing: {},
+      subagentTraces: 'nested' as const,
     };
 
     const errors = validateConfig(config);
@@ -235,6 +406,22 @@ describe('validateConfig', () => {
       traceNamePrefix: '',
       verbose: false,
       enabled: true,
+      excludeReasoning: false,
+      processedIdsStore: 'memory' as const,
+      processedIdsMaxEntries: 10000,
+      debounceMs: 10000,
+      exporters: ['langfuse' as const],
+      otlpEndpoint: 'http://localhost:4318/v1/traces',
+      otlpProtocol: 'http/json' as const,
+      otlpHeaders: {},
+      queueOverflow: 'sliding' as const,
+      sessionStateStore: 'persistent' as const,
+      sessionIdleTimeoutMs: 1800000,
+      generationInputTurns: 1,
+      userId: '',
+      userIdSource: 'auto' as const,
+      modelPricing: {},
+      subagentTraces: 'nested' as const,
     };
 
     const errors = validateConfig(config);
@@ -256,6 +443,22 @@ describe('validateConfig', () => {
       traceNamePrefix: '',
       verbose: false,
       enabled: true,
+      excludeReasoning: false,
+      processedIdsStore: 'memory' as const,
+      processedIdsMaxEntries: 10000,
+      debounceMs: 10000,
+      exporters: ['langfuse' as const],
+      otlpEndpoint: 'http://localhost:4318/v1/traces',
+      otlpProtocol: 'http/json' as const,
+      otlpHeaders: {},
+      queueOverflow: 'sliding' as const,
+      sessionStateStore: 'persistent' as const,
+      sessionIdleTimeoutMs: 1800000,
+      generationInputTurns: 1,
+      userId: '',
+      userIdSource: 'auto' as const,
+      modelPricing: {},
+      subagentTraces: 'nested' as const,
     };
 
     const errors = validateConfig(config);
@@ -277,6 +480,22 @@ describe('validateConfig', () => {
       traceNamePrefix: '',
       verbose: false,
       enabled: true,
+      excludeReasoning: false,
+      processedIdsStore: 'memory' as const,
+      processedIdsMaxEntries: 10000,
+      debounceMs: 10000,
+      exporters: ['langfuse' as const],
+      otlpEndpoint: 'http://localhost:4318/v1/traces',
+      otlpProtocol: 'http/json' as const,
+      otlpHeaders: {},
+      queueOverflow: 'sliding' as const,
+      sessionStateStore: 'persistent' as const,
+      sessionIdleTimeoutMs: 1800000,
+      generationInputTurns: 1,
+      userId: '',
+      userIdSource: 'auto' as const,
+      modelPricing: {},
+      subagentTraces: 'nested' as const,
     };
 
     const errors = validateConfig(config);
@@ -285,4 +504,148 @@ describe('validateConfig', () => {
     expect(errors).toContain('LANGFUSE_PUBLIC_KEY is required');
     expect(errors).toContain('LANGFUSE_SECRET_KEY is required');
   });
+
+  it('should report unknown exporters', () => {
+    const config = {
+      publicKey: 'pk-test',
+      secretKey: 'sk-test',
+      host: 'https://cloud.langfuse.com',
+      exportMode: 'full' as const,
+      redactPatterns: [],
+      flushInterval: 5000,
+      spoolDir: '/tmp/spool',
+      maxSpoolSizeMB: 100,
+      retentionDays: 7,
+      traceNamePrefix: '',
+      verbose: false,
+      enabled: true,
+      excludeReasoning: false,
+      processedIdsStore: 'memory' as const,
+      processedIdsMaxEntries: 10000,
+      debounceMs: 10000,
+      exporters: ['langfuse', 'custom'] as ExporterKind[],
+      otlpEndpoint: 'http://localhost:4318/v1/traces',
+      otlpProtocol: 'http/json' as const,
+      otlpHeaders: {},
+      queueOverflow: 'sliding' as const,
+      sessionStateStore: 'persistent' as const,
+      sessionIdleTimeoutMs: 1800000,
+      generationInputTurns: 1,
+      userId: '',
+      userIdSource: 'auto' as const,
+      modelPricing: {},
+      subagentTraces: 'nested' as const,
+    };
+
+    const errors = validateConfig(config);
+
+    expect(errors).toEqual(['Unknown exporter: custom']);
+  });
+
+  it('should validate the OTLP endpoint without requiring Langfuse keys', () => {
+    const config = {
+      ...loadConfig(),
+      publicKey: '',
+      secretKey: '',
+      exporters: ['otlp' as const],
+      otlpEndpoint: 'not a url',
+    };
+
+    const errors = validateConfig(config);
+
+    expect(errors).toEqual(['Invalid OTLP endpoint: not a url']);
+  });
+
+  it('should report unknown queue overflow policies', () => {
+    const config = { ...loadConfig(), publicKey: 'pk-test', secretKey: 'sk-test' };
+
+    const errors = validateConfig({ ...config, queueOverflow: 'drop' as QueueOverflowPolicy });
+
+    expect(errors).toEqual(['Unknown queue overflow policy: drop']);
+  });
+
+  it('should report unknown processed IDs stores', () => {
+    const config = { ...loadConfig(), publicKey: 'pk-test', secretKey: 'sk-test' };
+
+    const errors = validateConfig({
+      ...config,
+      processedIdsStore: 'persistant' as ProcessedIdsStore,
+    });
+
+    expect(errors).toEqual(['Unknown processed IDs store: persistant']);
+  });
+
+  it('should report unknown session state stores', () => {
+    const config = { ...loadConfig(), publicKey: 'pk-test', secretKey: 'sk-test' };
+
+    const errors = validateConfig({
+      ...config,
+      sessionStateStore: 'disk' as SessionStateStore,
+    });
+
+    expect(errors).toEqual(['Unknown session state store: disk']);
+  });
+
+  it('should report invalid processed IDs max entries', () => {
+    const config = { ...loadConfig(), publicKey: 'pk-test', secretKey: 'sk-test' };
+
+    expect(validateConfig({ ...config, processedIdsMaxEntries: 0 })).toEqual([
+      'Invalid processed IDs max entries: 0',
+    ]);
+    expect(validateConfig({ ...config, processedIdsMaxEntries: NaN })).toEqual([
+      'Invalid processed IDs max entries: NaN',
+    ]);
+  });
+
+  it('should report invalid session idle timeouts but allow 0 to disable eviction', () => {
+    const config = { ...loadConfig(), publicKey: 'pk-test', secretKey: 'sk-test' };
+
+    expect(validateConfig({ ...config, sessionIdleTimeoutMs: 0 })).toEqual([]);
+    expect(validateConfig({ ...config, sessionIdleTimeoutMs: -1 })).toEqual([
+      'Invalid session idle timeout: -1',
+    ]);
+    expect(validateConfig({ ...config, sessionIdleTimeoutMs: NaN })).toEqual([
+      'Invalid session idle timeout: NaN',
+    ]);
+  });
+
+  it('should report unknown userId sources', () => {
+    const config = { ...loadConfig(), publicKey: 'pk-test', secretKey: 'sk-test' };
+
+    const errors = validateConfig({ ...config, userIdSource: 'ldap' as UserIdSource });
+
+    expect(errors).toEqual(['Unknown userId source: ldap']);
+  });
+
+  it('should report unknown subagent trace modes', () => {
+    const config = { ...loadConfig(), publicKey: 'pk-test', secretKey: 'sk-test' };
+
+    const errors = validateConfig({ ...config, subagentTraces: 'flat' as SubagentTraceMode });
+
+    expect(errors).toEqual(['Unknown subagent trace mode: flat']);
+  });
+
+  it('should report invalid model prices', () => {
+    const config = { ...loadConfig(), publicKey: 'pk-test', secretKey: 'sk-test' };
+
+    const errors = validateConfig({
+      ...config,
+      modelPricing: {
+        'ollama/llama3': { input: 0.1, output: 0.2 },
+        'ollama/mistral': { input: 0.1, output: -1 },
+        'ollama/qwen': { output: 0.2 } as ModelPrice,
+      },
+    });
+
+    expect(errors).toEqual([
+      'Invalid price for model: ollama/mistral',
+      'Invalid price for model: ollama/qwen',
+    ]);
+  });
+
+  it('should accept the local store without Langfuse keys', () => {
+    const config = { ...loadConfig(), publicKey: '', secretKey: '', exporters: ['local' as const] };
+
+    expect(validateConfig(config)).toEqual([]);
+  });
 });
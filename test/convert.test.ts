@@ -0,0 +1,82 @@
+import type { EventMessageUpdated, EventSessionDiff, EventSessionError } from '@opencode-ai/sdk';
+import { describe, expect, it } from 'vitest';
+
+import { convertEvent } from '../src/effect/streams/convert';
+
+describe('convertEvent', () => {
+  it('should convert session.error without a message ID', () => {
+    const event = {
+      type: 'session.error',
+      properties: {
+        sessionID: 'ses-1',
+        error: {
+          name: 'APIError',
+          data: { message: 'Rate limit exceeded', statusCode: 429, isRetryable: true },
+        },
+      },
+    } satisfies EventSessionError;
+
+    expect(convertEvent(event)).toMatchObject({
+      type: 'session.error',
+      sessionId: 'ses-1',
+      errorName: 'APIError',
+      errorMessage: 'Rate limit exceeded',
+      statusCode: 429,
+      isRetryable: true,
+    });
+    expect(convertEvent({ type: 'session.error', properties: {} })).toBeNull();
+  });
+
+  it('should carry the error of a failed assistant message', () => {
+    const event = {
+      type: 'message.updated',
+      properties: {
+        info: {
+          id: 'msg-1',
+          sessionID: 'ses-1',
+          role: 'assistant',
+          time: { created: 1_700_000_000_000, completed: 1_700_000_001_000 },
+          error: { name: 'MessageAbortedError', data: { message: 'Aborted' } },
+          parentID: 'msg-0',
+          modelID: 'claude-sonnet',
+          providerID: 'anthropic',
+          mode: 'build',
+          path: { cwd: '/repo', root: '/repo' },
+          cost: 0,
+          tokens: { input: 10, output: 0, reasoning: 0, cache: { read: 0, write: 0 } },
+        },
+      },
+    } satisfies EventMessageUpdated;
+
+    expect(convertEvent(event)).toMatchObject({
+      type: 'message.updated',
+      messageId: 'msg-1',
+      errorName: 'MessageAbortedError',
+    });
+  });
+
+  it('should convert the session diff', () => {
+    const event = {
+      type: 'session.diff',
+      properties: {
+        sessionID: 'ses-1',
+        diff: [
+          { file: 'a.ts', before: '', after: 'a', additions: 1, deletions: 0 },
+          { file: 'b.ts', before: 'b', after: '', additions: 0, deletions: 1 },
+        ],
+      },
+    } satisfies EventSessionDiff;
+
+    expect(convertEvent(event)).toMatchObject({
+      type: 'session.diff',
+      sessionId: 'ses-1',
+      diffs: [
+        { file: 'a.ts', additions: 1, deletions: 0 },
+        { file: 'b.ts', additions: 0, deletions: 1 },
+      ],
+    });
+    expect(
+      convertEvent({ type: 'session.diff', properties: { sessionID: 'ses-1', diff: [] } })
+    ).toBeNull();
+  });
+});
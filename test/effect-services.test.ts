@@ -5,12 +5,31 @@
  * Uses Effect's testing patterns with Layer-based dependency injection.
  */
 
-import { Effect, Exit, Layer, Queue } from 'effect';
-import { describe, expect, it } from 'vitest';
-
-import { EventQueue, EventQueueLive, EventQueueTest } from '../src/effect/services/EventQueue';
-import { ProcessedIds, ProcessedIdsLive } from '../src/effect/services/ProcessedIds';
-import { SessionState, SessionStateLive } from '../src/effect/services/SessionState';
+import { Effect, Exit, Layer, Queue, Ref, TestClock, TestContext } from 'effect';
+import { readdir, readFile, rm, unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  EventQueue,
+  EventQueueLive,
+  EventQueueTest,
+  makeEventQueue,
+} from '../src/effect/services/EventQueue';
+import {
+  ProcessedIds,
+  ProcessedIdsLive,
+  ProcessedIdsPersistent,
+} from '../src/effect/services/ProcessedIds';
+import {
+  SessionState,
+  SessionStateLive,
+  SessionStatePersistent,
+} from '../src/effect/services/SessionState';
+import { TraceExporter, fanOutExporters } from '../src/effect/services/TraceExporter';
+import { ExporterError } from '../src/effect/errors';
+import { loadConfig } from '../src/lib/config';
 import type {
   ChatMessageEvent,
   ChatParamsEvent,
@@ -156,6 +175,176 @@ describe('EventQueue Service', () => {
       expect(result).toBe(true);
     });
   });
+
+  describe('overflow policies', () => {
+    const spoolDir = join(tmpdir(), `langfuse-queue-test-${Date.now()}`);
+
+    afterEach(async () => {
+      await rm(spoolDir, { recursive: true, force: true });
+    });
+
+    const offerAll = (queue: EventQueue, sessionIds: string[]) =>
+      Effect.forEach(sessionIds, (id) => queue.offer(createSessionEvent(id)));
+
+    const takeAll = (queue: EventQueue, count: number) =>
+      Effect.map(Effect.replicateEffect(queue.take, count), (events) =>
+        events.map((e) => e.sessionId)
+      );
+
+    it('should drop the newest events with dropping', async () => {
+      const result = await runWithLayer(
+        Effect.gen(function* () {
+          const queue = yield* EventQueue;
+          const offered = yield* offerAll(queue, ['s1', 's2', 's3']);
+
+          return {
+            offered,
+            taken: yield* takeAll(queue, 2),
+            dropped: yield* queue.dropped(),
+            droppedS3: yield* queue.dropped('s3'),
+          };
+        }),
+        EventQueueTest(2, 'dropping')
+      );
+
+      expect(result).toEqual({
+        offered: [true, true, false],
+        taken: ['s1', 's2'],
+        dropped: 1,
+        droppedS3: 1,
+      });
+    });
+
+    it('should drop the oldest events with sliding', async () => {
+      const result = await runWithLayer(
+        Effect.gen(function* () {
+          const queue = yield* EventQueue;
+          const offered = yield* offerAll(queue, ['s1', 's2', 's3', 's4']);
+
+          return {
+            offered,
+            taken: yield* takeAll(queue, 2),
+            droppedS1: yield* queue.dropped('s1'),
+            droppedS4: yield* queue.dropped('s4'),
+          };
+        }),
+        EventQueueTest(2, 'sliding')
+      );
+
+      expect(result).toEqual({
+        offered: [true, true, true, true],
+        taken: ['s3', 's4'],
+        droppedS1: 1,
+        droppedS4: 0,
+      });
+    });
+
+    it('should spill overflow to disk and queue it again in order', async () => {
+      const result = await runWithLayer(
+        Effect.gen(function* () {
+          const queue = yield* EventQueue;
+          const offered = yield* offerAll(queue, ['s1', 's2', 's3', 's4', 's5']);
+          const size = yield* queue.size;
+
+          return {
+            offered,
+            size,
+            taken: yield* takeAll(queue, 5),
+            dropped: yield* queue.dropped(),
+          };
+        }),
+        EventQueueTest(2, 'spill', spoolDir)
+      );
+
+      expect(result).toEqual({
+        offered: [true, true, true, true, true],
+        size: 5,
+        taken: ['s1', 's2', 's3', 's4', 's5'],
+        dropped: 0,
+      });
+    });
+
+    it('should queue events spilled by a previous run', async () => {
+      const layer = EventQueueTest(1, 'spill', spoolDir);
+
+      // The first run ends with events still spilled
+      await runWithLayer(
+        Effect.flatMap(EventQueue, (queue) => offerAll(queue, ['s1', 's2', 's3'])),
+        layer
+      );
+
+      const taken = await runWithLayer(
+        Effect.flatMap(EventQueue, (queue) => takeAll(queue, 2)),
+        layer
+      );
+
+      expect(taken).toEqual(['s2', 's3']);
+    });
+
+    it('should keep events claimed by an unfinished refill for the next run', async () => {
+      const layer = EventQueueTest(1, 'spill', spoolDir);
+
+      const size = await runWithLayer(
+        Effect.gen(function* () {
+          const queue = yield* EventQueue;
+          yield* offerAll(queue, ['s1', 's2', 's3']);
+          // The refill claims the spill file, then waits for room in the full queue
+          yield* Effect.promise(() =>
+            vi.waitFor(async () =>
+              expect((await readdir(spoolDir)).some((f) => f.endsWith('.refilling'))).toBe(true)
+            )
+          );
+          return yield* queue.size;
+        }),
+        layer
+      );
+
+      const taken = await runWithLayer(
+        Effect.flatMap(EventQueue, (queue) => takeAll(queue, 2)),
+        layer
+      );
+
+      expect(size).toBe(3);
+      expect(taken).toEqual(['s2', 's3']);
+    });
+
+    it('should keep the spilled events of queues sharing a spool directory apart', async () => {
+      const result = await Effect.runPromise(
+        Effect.scoped(
+          Effect.gen(function* () {
+            const first = yield* makeEventQueue(1, 'spill', spoolDir);
+            yield* offerAll(first, ['a1', 'a2']);
+            // A queue starting meanwhile must not take over a running queue's events
+            const second = yield* makeEventQueue(1, 'spill', spoolDir);
+            yield* offerAll(second, ['b1', 'b2']);
+
+            return { first: yield* takeAll(first, 2), second: yield* takeAll(second, 2) };
+          })
+        )
+      );
+
+      expect(result).toEqual({ first: ['a1', 'a2'], second: ['b1', 'b2'] });
+    });
+
+    it('should stop counting spilled events once the spill file is gone', async () => {
+      const result = await runWithLayer(
+        Effect.gen(function* () {
+          const queue = yield* EventQueue;
+          yield* offerAll(queue, ['s1', 's2']);
+          const sizeSpilled = yield* queue.size;
+
+          const files = yield* Effect.promise(() => readdir(spoolDir));
+          yield* Effect.promise(() => Promise.all(files.map((f) => unlink(join(spoolDir, f)))));
+          const taken = yield* takeAll(queue, 1);
+
+          return { sizeSpilled, taken, size: yield* queue.size };
+        }),
+        EventQueueTest(1, 'spill', spoolDir)
+      );
+
+      expect(result).toEqual({ sizeSpilled: 2, taken: ['s1'], size: 0 });
+    });
+  });
 });
 
 describe('ProcessedIds Service', () => {
@@ -268,6 +457,128 @@ describe('ProcessedIds Service', () => {
   });
 });
 
+describe('ProcessedIdsPersistent', () => {
+  const spoolDir = join(
+    tmpdir(),
+    `langfuse-processed-ids-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  );
+  const storeFile = join(spoolDir, 'processed-ids.tsv');
+
+  const createConfig = (processedIdsMaxEntries = 100) => ({
+    ...loadConfig(),
+    spoolDir,
+    retentionDays: 7,
+    processedIdsMaxEntries,
+  });
+
+  const runWithStore = <A, E>(effect: Effect.Effect<A, E, ProcessedIds>, config = createConfig()) =>
+    Effect.runPromise(Effect.provide(effect, ProcessedIdsPersistent(config)));
+
+  afterEach(async () => {
+    await rm(spoolDir, { recursive: true, force: true });
+  });
+
+  it('should remember processed IDs across restarts', async () => {
+    await runWithStore(
+      Effect.gen(function* () {
+        const processedIds = yield* ProcessedIds;
+        expect(yield* processedIds.add('event-1')).toBe(true);
+        expect(yield* processedIds.add('event-2')).toBe(true);
+      })
+    );
+
+    // A new layer instance simulates a restarted plugin
+    await runWithStore(
+      Effect.gen(function* () {
+        const processedIds = yield* ProcessedIds;
+        expect(yield* processedIds.has('event-1')).toBe(true);
+        expect(yield* processedIds.add('event-2')).toBe(false);
+        expect(yield* processedIds.size).toBe(2);
+      })
+    );
+  });
+
+  it('should drop entries older than retentionDays on load', async () => {
+    await runWithStore(Effect.void);
+    const expired = Date.now() - 8 * 24 * 60 * 60 * 1000;
+    await writeFile(storeFile, `${expired}\told-event\n${Date.now()}\tnew-event\n`, 'utf-8');
+
+    await runWithStore(
+      Effect.gen(function* () {
+        const processedIds = yield* ProcessedIds;
+        expect(yield* processedIds.has('old-event')).toBe(false);
+        expect(yield* processedIds.has('new-event')).toBe(true);
+      })
+    );
+
+    // Startup compaction removes the expired line from disk
+    const content = await readFile(storeFile, 'utf-8');
+    expect(content).not.toContain('old-event');
+  });
+
+  it('should evict the least recently used ID when over capacity', async () => {
+    await runWithStore(
+      Effect.gen(function* () {
+        const processedIds = yield* ProcessedIds;
+        yield* processedIds.add('a');
+        yield* processedIds.add('b');
+        // Touch 'a' so 'b' becomes least recently used
+        yield* processedIds.has('a');
+        yield* processedIds.add('c');
+
+        expect(yield* processedIds.size).toBe(2);
+        expect(yield* processedIds.has('a')).toBe(true);
+        expect(yield* processedIds.has('b')).toBe(false);
+        expect(yield* processedIds.has('c')).toBe(true);
+      }),
+      createConfig(2)
+    );
+  });
+
+  it('should keep the file compact as it grows', async () => {
+    await runWithStore(
+      Effect.gen(function* () {
+        const processedIds = yield* ProcessedIds;
+        for (let i = 0; i < 10; i++) {
+          yield* processedIds.add(`event-${i}`);
+        }
+      }),
+      createConfig(3)
+    );
+
+    const lines = (await readFile(storeFile, 'utf-8')).trim().split('\n');
+    expect(lines.length).toBeLessThanOrEqual(6);
+    expect(lines[lines.length - 1]).toContain('event-9');
+  });
+
+  it('should persist remove and clear', async () => {
+    await runWithStore(
+      Effect.gen(function* () {
+        const processedIds = yield* ProcessedIds;
+        yield* processedIds.add('keep');
+        yield* processedIds.add('drop');
+        yield* processedIds.remove('drop');
+      })
+    );
+
+    await runWithStore(
+      Effect.gen(function* () {
+        const processedIds = yield* ProcessedIds;
+        expect(yield* processedIds.has('keep')).toBe(true);
+        expect(yield* processedIds.has('drop')).toBe(false);
+        yield* processedIds.clear;
+      })
+    );
+
+    await runWithStore(
+      Effect.gen(function* () {
+        const processedIds = yield* ProcessedIds;
+        expect(yield* processedIds.size).toBe(0);
+      })
+    );
+  });
+});
+
 describe('SessionState Service', () => {
   it('should store and retrieve session state', async () => {
     const result = await runWithSessionState(
@@ -442,6 +753,212 @@ describe('SessionState Service', () => {
   });
 });
 
+describe('SessionStatePersistent', () => {
+  const spoolDir = join(
+    tmpdir(),
+    `langfuse-session-state-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  );
+  const config = { ...loadConfig(), spoolDir, retentionDays: 7, sessionIdleTimeoutMs: 60_000 };
+
+  const runWithSessions = <A, E>(effect: Effect.Effect<A, E, SessionState>) =>
+    Effect.runPromise(
+      effect.pipe(
+        Effect.provide(SessionStatePersistent(config)),
+        Effect.provide(TestContext.TestContext)
+      )
+    );
+
+  // Give snapshot writes started by the eviction fiber real time to finish
+  const waitForDisk = Effect.promise(() => new Promise((resolve) => setTimeout(resolve, 50)));
+
+  const createThreadedState = (sessionId: string): TraceState => ({
+    ...createTraceState(sessionId),
+    messages: new Map([
+      ['msg-1', { observationId: 'obs-1', role: 'user' }],
+      ['msg-2', { observationId: 'obs-2', role: 'assistant', parentObservationId: 'obs-1' }],
+    ]),
+    spans: new Map([['tool-1', 'span-1']]),
+  });
+
+  afterEach(async () => {
+    await rm(spoolDir, { recursive: true, force: true });
+  });
+
+  it('should evict idle sessions and rehydrate them on the next access', async () => {
+    const result = await runWithSessions(
+      Effect.gen(function* () {
+        const sessionState = yield* SessionState;
+        yield* sessionState.set('idle', createThreadedState('idle'));
+        yield* TestClock.adjust('1 minute');
+        yield* sessionState.set('active', createThreadedState('active'));
+
+        // The first check (after 1 minute) is too early, the second evicts `idle`
+        yield* TestClock.adjust('1 minute');
+        yield* waitForDisk;
+        const inMemory = [...(yield* sessionState.getAll).keys()];
+
+        const rehydrated = yield* sessionState.get('idle');
+        return { inMemory, rehydrated, unknown: yield* sessionState.get('unknown') };
+      })
+    );
+
+    expect(result.inMemory).toEqual(['active']);
+    expect(result.rehydrated?.traceId).toBe('trace-idle');
+    expect(result.rehydrated?.title).toBe('Test Trace');
+    expect(result.rehydrated?.messages.get('msg-2')).toEqual({
+      observationId: 'obs-2',
+      role: 'assistant',
+      parentObservationId: 'obs-1',
+    });
+    // Open spans are not kept across eviction
+    expect(result.rehydrated?.spans.size).toBe(0);
+    expect(result.unknown).toBeUndefined();
+  });
+
+  it('should keep sessions across restarts until they are deleted', async () => {
+    await runWithSessions(
+      Effect.flatMap(SessionState, (sessionState) =>
+        sessionState.set('session-1', createThreadedState('session-1'))
+      )
+    );
+    expect(await readdir(spoolDir)).toEqual(['session-session-1.json']);
+
+    const restored = await runWithSessions(
+      Effect.gen(function* () {
+        const sessionState = yield* SessionState;
+        const state = yield* sessionState.update('session-1', (s) => ({ ...s, title: 'Renamed' }));
+        yield* sessionState.delete('session-1');
+        return state;
+      })
+    );
+
+    expect(restored?.title).toBe('Renamed');
+    expect(restored?.messages.size).toBe(2);
+
+    const afterDelete = await runWithSessions(
+      Effect.flatMap(SessionState, (sessionState) => sessionState.has('session-1'))
+    );
+    expect(afterDelete).toBe(false);
+  });
+
+  it('should only read snapshots of sessions evicted before or during this run', async () => {
+    const unknown = await runWithSessions(
+      Effect.gen(function* () {
+        const sessionState = yield* SessionState;
+        // Written behind the store's back, so it is not in the snapshot index
+        yield* Effect.promise(() => writeFile(join(spoolDir, 'session-late.json'), '{}'));
+        return yield* sessionState.get('late');
+      })
+    );
+
+    expect(unknown).toBeUndefined();
+  });
+});
+
+describe('TraceExporter fan-out', () => {
+  const config = loadConfig();
+
+  /**
+   * Exporter that records calls and fails the first `failures` of them.
+   */
+  const createExporter = (
+    name: string,
+    callsRef: Ref.Ref<string[]>,
+    failures = 0,
+    retryable = true
+  ): TraceExporter => {
+    let remaining = failures;
+    const record = (operation: 'upsertTrace' | 'upsertSpan' | 'flush', id: string) =>
+      Effect.suspend(() => {
+        if (remaining > 0) {
+          remaining--;
+          return Effect.fail(
+            new ExporterError({ message: 'unavailable', exporter: name, operation, retryable })
+          );
+        }
+        return Ref.update(callsRef, (calls) => [...calls, `${name}:${id}`]);
+      });
+
+    return TraceExporter.of({
+      name,
+      upsertTrace: (data) => record('upsertTrace', data.id),
+      upsertGeneration: () => Effect.void,
+      upsertSpan: (data) => record('upsertSpan', data.id ?? data.name),
+      flush: record('flush', 'flush'),
+      shutdown: Effect.void,
+      config,
+    });
+  };
+
+  it('should send every call to all exporters', async () => {
+    const calls = await Effect.runPromise(
+      Effect.gen(function* () {
+        const callsRef = yield* Ref.make<string[]>([]);
+        const exporter = yield* fanOutExporters(
+          [createExporter('a', callsRef), createExporter('b', callsRef)],
+          config
+        );
+
+        yield* exporter.upsertTrace({ id: 'trace-1', sessionId: 's', name: 'Session' });
+        yield* exporter.upsertSpan({ id: 'span-1', traceId: 'trace-1', name: 'tool' });
+        yield* exporter.flush;
+
+        expect(exporter.name).toBe('a+b');
+        return yield* Ref.get(callsRef);
+      }).pipe(Effect.scoped)
+    );
+
+    expect([...calls].sort()).toEqual([
+      'a:flush',
+      'a:span-1',
+      'a:trace-1',
+      'b:flush',
+      'b:span-1',
+      'b:trace-1',
+    ]);
+  });
+
+  it('should isolate a failing exporter from the others', async () => {
+    const calls = await Effect.runPromise(
+      Effect.gen(function* () {
+        const callsRef = yield* Ref.make<string[]>([]);
+        const exporter = yield* fanOutExporters(
+          [createExporter('broken', callsRef, Infinity, false), createExporter('ok', callsRef)],
+          config
+        );
+
+        yield* exporter.upsertTrace({ id: 'trace-1', sessionId: 's', name: 'Session' });
+        return yield* Ref.get(callsRef);
+      }).pipe(Effect.scoped)
+    );
+
+    expect(calls).toEqual(['ok:trace-1']);
+  });
+
+  it('should retry retryable failures in the background without delaying callers', async () => {
+    await Effect.runPromise(
+      Effect.gen(function* () {
+        const callsRef = yield* Ref.make<string[]>([]);
+        const exporter = yield* fanOutExporters(
+          [createExporter('flaky', callsRef, 2), createExporter('ok', callsRef)],
+          config
+        );
+
+        // Both calls return before the flaky exporter's first retry
+        yield* exporter.upsertTrace({ id: 'trace-1', sessionId: 's', name: 'Session' });
+        yield* exporter.flush;
+        expect(yield* Ref.get(callsRef)).toEqual(['ok:trace-1', 'ok:flush']);
+
+        yield* TestClock.adjust('1 minute');
+        expect((yield* Ref.get(callsRef)).slice(2).sort()).toEqual([
+          'flaky:flush',
+          'flaky:trace-1',
+        ]);
+      }).pipe(Effect.scoped, Effect.provide(TestContext.TestContext))
+    );
+  });
+});
+
 describe('Service Layer Composition', () => {
   it('should compose multiple services in a single layer', async () => {
     const composedLayer = Layer.mergeAll(EventQueueLive, ProcessedIdsLive, SessionStateLive);
@@ -513,12 +1030,11 @@ describe('New event type fixtures', () => {
     },
   });
 
-  const createSessionDiffEvent = (sessionId: string, messageId: string): SessionDiffEvent => ({
+  const createSessionDiffEvent = (sessionId: string, timestamp: number): SessionDiffEvent => ({
     type: 'session.diff',
-    eventKey: `${sessionId}:diff:${messageId}`,
-    timestamp: Date.now(),
+    eventKey: `${sessionId}:diff:${timestamp}`,
+    timestamp,
     sessionId,
-    messageId,
     diffs: [
       { file: 'src/index.ts', additions: 10, deletions: 5 },
       { file: 'test/test.ts', additions: 20, deletions: 0 },
@@ -557,7 +1073,7 @@ describe('New event type fixtures', () => {
     const result = await runWithLayer(
       Effect.gen(function* () {
         const queue = yield* EventQueue;
-        const event = createSessionDiffEvent('session-diff', 'msg-1');
+        const event = createSessionDiffEvent('session-diff', 1_700_000_000_000);
 
         yield* queue.offer(event);
         const taken = yield* queue.take;
@@ -5,21 +5,36 @@
  * Effect's TestClock for deterministic time control.
  */
 
-import { Effect, Fiber, Layer, Ref, Stream } from 'effect';
+import { Duration, Effect, Fiber, Layer, Ref, Stream, TestClock, TestContext } from 'effect';
 import { describe, expect, it } from 'vitest';
-import { EventQueue, EventQueueLive } from '../src/effect/services/EventQueue';
-import { LangfuseClient } from '../src/effect/services/LangfuseClient';
+import { ORPHAN_PART_TIMEOUT } from '../src/effect/constants';
+import { EventQueue, EventQueueLive, EventQueueTest } from '../src/effect/services/EventQueue';
 import { ProcessedIdsLive } from '../src/effect/services/ProcessedIds';
+import { SessionLookup } from '../src/effect/services/SessionLookup';
 import { SessionState, SessionStateLive } from '../src/effect/services/SessionState';
-import { createEventProcessor } from '../src/effect/streams/EventProcessor';
+import {
+  TraceExporter,
+  type GenerationData,
+  type SpanData,
+  type TraceData,
+} from '../src/effect/services/TraceExporter';
+import { createEventProcessor, drainEventProcessor } from '../src/effect/streams/EventProcessor';
 import type {
   ChatMessageEvent,
   ChatParamsEvent,
   MessagePartEvent,
+  MessageEvent,
+  PluginEvent,
+  SessionCompactedEvent,
+  SessionCompactingEvent,
   SessionDiffEvent,
+  SessionErrorEvent,
   SessionEvent,
+  SessionStatusEvent,
+  TraceState,
 } from '../src/effect/streams/types';
 import type { LangfuseExporterConfig } from '../src/lib/config';
+import { generateObservationId, sessionToUUID } from '../src/lib/session-id';
 
 // Mock config for testing
 const mockConfig: LangfuseExporterConfig = {
@@ -35,52 +50,163 @@ const mockConfig: LangfuseExporterConfig = {
   traceNamePrefix: '',
   verbose: false,
   enabled: true,
+  excludeReasoning: false,
+  processedIdsStore: 'memory',
+  processedIdsMaxEntries: 10000,
+  debounceMs: 10000,
+  exporters: ['langfuse'],
+  otlpEndpoint: 'http://localhost:4318/v1/traces',
+  otlpProtocol: 'http/json',
+  otlpHeaders: {},
+  queueOverflow: 'sliding',
+  sessionStateStore: 'persistent',
+  sessionIdleTimeoutMs: 1800000,
+  generationInputTurns: 1,
+  userId: '',
+  userIdSource: 'none',
+  modelPricing: {},
+  subagentTraces: 'nested',
 };
 
-// Create a test LangfuseClient that records calls
-interface LangfuseCall {
+// Create a test TraceExporter that records calls
+interface ExportCall {
   type: 'trace' | 'generation' | 'span' | 'flush' | 'shutdown';
   data?: unknown;
   timestamp: number;
 }
 
-const createTestLangfuseClient = (callsRef: Ref.Ref<LangfuseCall[]>) =>
-  Layer.succeed(
-    LangfuseClient,
-    LangfuseClient.of({
-      createTrace: (data) =>
-        Ref.update(callsRef, (calls): LangfuseCall[] => [
-          ...calls,
-          { type: 'trace' as const, data, timestamp: Date.now() },
-        ]).pipe(Effect.asVoid),
-
-      createGeneration: (data) =>
-        Ref.update(callsRef, (calls): LangfuseCall[] => [
-          ...calls,
-          { type: 'generation' as const, data, timestamp: Date.now() },
-        ]).pipe(Effect.asVoid),
-
-      createSpan: (data) =>
-        Ref.update(callsRef, (calls): LangfuseCall[] => [
-          ...calls,
-          { type: 'span' as const, data, timestamp: Date.now() },
-        ]).pipe(Effect.asVoid),
-
-      flush: Ref.update(callsRef, (calls): LangfuseCall[] => [
+const recordingExporter = (
+  callsRef: Ref.Ref<ExportCall[]>,
+  config: LangfuseExporterConfig = mockConfig
+) =>
+  TraceExporter.of({
+    name: 'test',
+    upsertTrace: (data) =>
+      Ref.update(callsRef, (calls): ExportCall[] => [
         ...calls,
-        { type: 'flush' as const, timestamp: Date.now() },
+        { type: 'trace' as const, data, timestamp: Date.now() },
       ]).pipe(Effect.asVoid),
 
-      shutdown: Ref.update(callsRef, (calls): LangfuseCall[] => [
+    upsertGeneration: (data) =>
+      Ref.update(callsRef, (calls): ExportCall[] => [
         ...calls,
-        { type: 'shutdown' as const, timestamp: Date.now() },
+        { type: 'generation' as const, data, timestamp: Date.now() },
       ]).pipe(Effect.asVoid),
 
-      isConnected: Effect.succeed(true),
+    upsertSpan: (data) =>
+      Ref.update(callsRef, (calls): ExportCall[] => [
+        ...calls,
+        { type: 'span' as const, data, timestamp: Date.now() },
+      ]).pipe(Effect.asVoid),
+
+    flush: Ref.update(callsRef, (calls): ExportCall[] => [
+      ...calls,
+      { type: 'flush' as const, timestamp: Date.now() },
+    ]).pipe(Effect.asVoid),
+
+    shutdown: Ref.update(callsRef, (calls): ExportCall[] => [
+      ...calls,
+      { type: 'shutdown' as const, timestamp: Date.now() },
+    ]).pipe(Effect.asVoid),
+
+    config,
+  });
+
+const createTestExporter = (
+  callsRef: Ref.Ref<ExportCall[]>,
+  config: LangfuseExporterConfig = mockConfig
+) => Layer.succeed(TraceExporter, recordingExporter(callsRef, config));
+
+// A step of a processor run: an event to offer, or an effect to run between offers
+type RunStep = PluginEvent | Effect.Effect<void, never, SessionState>;
+
+interface RunOptions {
+  readonly config?: LangfuseExporterConfig;
+  /** Event queue layer (default: EventQueueLive) */
+  readonly queue?: Layer.Layer<EventQueue>;
+  readonly sessionLookup?: SessionLookup;
+  /** Wrap the recording exporter, e.g. to stall its flush */
+  readonly exporter?: (exporter: TraceExporter) => TraceExporter;
+  /** Offer the events before the processor starts */
+  readonly offerFirst?: boolean;
+  /** Stop with drainEventProcessor instead of interrupting the processor */
+  readonly drain?: boolean;
+  /** Test time to let pass after the last step (default: 10 seconds) */
+  readonly elapsed?: Duration.DurationInput;
+}
+
+interface ProcessorRun {
+  readonly calls: ExportCall[];
+  readonly traces: TraceData[];
+  readonly generations: GenerationData[];
+  readonly spans: SpanData[];
+  /** Session state left after the run */
+  readonly sessions: ReadonlyMap<string, TraceState>;
+  /** Whether the processor stopped by itself before being interrupted */
+  readonly completed: boolean;
+}
+
+// Run the event processor over the steps with fresh in-memory services and a TestClock
+const runProcessor = (
+  steps: ReadonlyArray<RunStep>,
+  options: RunOptions = {}
+): Effect.Effect<ProcessorRun> =>
+  Effect.gen(function* () {
+    const callsRef = yield* Ref.make<ExportCall[]>([]);
+    const exporter = recordingExporter(callsRef, options.config);
+    const elapsed = options.elapsed ?? '10 seconds';
+
+    const testLayer = Layer.mergeAll(
+      options.queue ?? EventQueueLive,
+      SessionStateLive,
+      ProcessedIdsLive,
+      Layer.succeed(TraceExporter, options.exporter ? options.exporter(exporter) : exporter)
+    );
 
-      config: mockConfig,
-    })
-  );
+    const run = Effect.gen(function* () {
+      const eventQueue = yield* EventQueue;
+      const sessionState = yield* SessionState;
+      const runSteps = Effect.forEach(
+        steps,
+        (step) => (Effect.isEffect(step) ? step : Effect.asVoid(eventQueue.offer(step))),
+        { discard: true }
+      );
+
+      if (options.offerFirst) yield* runSteps;
+      const stream = yield* createEventProcessor;
+      const fiber = yield* Effect.fork(Stream.runDrain(stream));
+      if (!options.offerFirst) yield* runSteps;
+
+      if (options.drain) {
+        const drainFiber = yield* Effect.fork(drainEventProcessor(fiber));
+        yield* TestClock.adjust(elapsed);
+        yield* Fiber.join(drainFiber);
+      } else {
+        yield* TestClock.adjust(elapsed);
+      }
+
+      const status = yield* Fiber.status(fiber);
+      yield* Fiber.interrupt(fiber);
+      return { completed: status._tag === 'Done', sessions: yield* sessionState.getAll };
+    });
+
+    const { completed, sessions } = yield* (
+      options.sessionLookup ? Effect.provideService(run, SessionLookup, options.sessionLookup) : run
+    ).pipe(Effect.provide(testLayer));
+
+    const calls = yield* Ref.get(callsRef);
+    const dataOf = <A>(type: ExportCall['type']) =>
+      calls.filter((c) => c.type === type).map((c) => c.data as A);
+
+    return {
+      calls,
+      traces: dataOf<TraceData>('trace'),
+      generations: dataOf<GenerationData>('generation'),
+      spans: dataOf<SpanData>('span'),
+      sessions,
+      completed,
+    };
+  }).pipe(Effect.provide(TestContext.TestContext));
 
 // Test fixtures
 const createSessionEvent = (sessionId: string, title?: string): SessionEvent => ({
@@ -91,6 +217,45 @@ const createSessionEvent = (sessionId: string, title?: string): SessionEvent =>
   title: title || 'Test Session',
 });
 
+const createAssistantMessageEvent = (sessionId: string, messageId: string): MessageEvent => ({
+  type: 'message.updated',
+  eventKey: messageId,
+  timestamp: Date.now(),
+  sessionId,
+  messageId,
+  role: 'assistant',
+  model: 'anthropic/claude-sonnet',
+  time: { created: Date.now() - 1000, completed: Date.now() },
+  usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+});
+
+// session.error names no message, like the bus event
+const createSessionErrorEvent = (sessionId: string, timestamp = Date.now()): SessionErrorEvent => ({
+  type: 'session.error',
+  eventKey: `${sessionId}:error:${timestamp}`,
+  timestamp,
+  sessionId,
+  errorName: 'APIError',
+  errorMessage: 'Rate limit exceeded',
+  providerId: 'anthropic',
+  statusCode: 429,
+  isRetryable: true,
+});
+
+const createSessionStatusEvent = (
+  sessionId: string,
+  status: SessionStatusEvent['status'],
+  timestamp: number,
+  retry?: { attempt: number; reason: string; nextRetryAt: number }
+): SessionStatusEvent => ({
+  type: 'session.status',
+  eventKey: `${sessionId}:status:${status}:${timestamp}`,
+  timestamp,
+  sessionId,
+  status,
+  ...retry,
+});
+
 const _createMessagePartEvent = (
   sessionId: string,
   messageId: string,
@@ -112,14 +277,14 @@ describe('EventProcessor', () => {
     it('should process session.created events immediately', async () => {
       const test = Effect.gen(function* () {
         // Create refs to track state
-        const callsRef = yield* Ref.make<LangfuseCall[]>([]);
+        const callsRef = yield* Ref.make<ExportCall[]>([]);
 
         // Build test layer
         const testLayer = Layer.mergeAll(
           EventQueueLive,
           SessionStateLive,
           ProcessedIdsLive,
-          createTestLangfuseClient(callsRef)
+          createTestExporter(callsRef)
         );
 
         // Run test with layer
@@ -156,13 +321,13 @@ describe('EventProcessor', () => {
 
     it('should deduplicate events with same eventKey', async () => {
       const test = Effect.gen(function* () {
-        const callsRef = yield* Ref.make<LangfuseCall[]>([]);
+        const callsRef = yield* Ref.make<ExportCall[]>([]);
 
         const testLayer = Layer.mergeAll(
           EventQueueLive,
           SessionStateLive,
           ProcessedIdsLive,
-          createTestLangfuseClient(callsRef)
+          createTestExporter(callsRef)
         );
 
         yield* Effect.provide(
@@ -193,6 +358,24 @@ describe('EventProcessor', () => {
     });
   });
 
+  describe('queue overflow', () => {
+    it('should export dropped events as trace metadata', async () => {
+      // Fill the queue before the processor runs, so both messages are dropped
+      const { traces } = await Effect.runPromise(
+        runProcessor(
+          [
+            createSessionEvent('session-full'),
+            createAssistantMessageEvent('session-full', 'msg-1'),
+            createAssistantMessageEvent('session-full', 'msg-2'),
+          ],
+          { queue: EventQueueTest(1, 'dropping'), offerFirst: true, elapsed: '100 millis' }
+        )
+      );
+
+      expect(traces.map((t) => t.metadata)).toContainEqual({ dropped_events: 2 });
+    });
+  });
+
   // Note: TestClock-based debounce tests are complex because the EventProcessor
   // uses real time internally. These tests would require deeper integration
   // with Effect's test utilities. For now, we test the debounce behavior
@@ -206,13 +389,13 @@ describe('EventProcessor', () => {
   describe('session state tracking', () => {
     it('should create trace on session.created and track in state', async () => {
       const test = Effect.gen(function* () {
-        const callsRef = yield* Ref.make<LangfuseCall[]>([]);
+        const callsRef = yield* Ref.make<ExportCall[]>([]);
 
         const testLayer = Layer.mergeAll(
           EventQueueLive,
           SessionStateLive,
           ProcessedIdsLive,
-          createTestLangfuseClient(callsRef)
+          createTestExporter(callsRef)
         );
 
         yield* Effect.provide(
@@ -239,6 +422,948 @@ describe('EventProcessor', () => {
 
       await Effect.runPromise(test);
     });
+
+    it('should create the trace for a session resumed without session.created', async () => {
+      const { generations, sessions } = await Effect.runPromise(
+        runProcessor([createAssistantMessageEvent('session-resumed', 'msg-1')])
+      );
+
+      const state = sessions.get('session-resumed');
+      expect(state?.traceId).toBe(sessionToUUID('session-resumed'));
+      expect(state?.title).toBe('OpenCode Session');
+      expect(generations[0].traceId).toBe(sessionToUUID('session-resumed'));
+    });
+
+    it('should name a synthesized trace with the title from SessionLookup', async () => {
+      const { traces } = await Effect.runPromise(
+        runProcessor([createAssistantMessageEvent('session-named', 'msg-1')], {
+          sessionLookup: SessionLookup.of({
+            getSession: () => Effect.succeed({ title: 'Resumed Session' }),
+          }),
+        })
+      );
+
+      expect(traces[0].name).toBe('Resumed Session');
+    });
+
+    it('should apply a title update that follows session.created', async () => {
+      const created = createSessionEvent('session-renamed', 'New session');
+      const { traces, sessions } = await Effect.runPromise(
+        runProcessor([
+          created,
+          {
+            ...createSessionEvent('session-renamed', 'Fix the login bug'),
+            type: 'session.updated',
+            timestamp: created.timestamp + 1,
+          },
+        ])
+      );
+
+      expect(traces.at(-1)?.name).toBe('Fix the login bug');
+      expect(sessions.get('session-renamed')?.title).toBe('Fix the login bug');
+    });
+
+    it('should nest a synthesized subagent trace under the parent from SessionLookup', async () => {
+      const { generations, sessions } = await Effect.runPromise(
+        runProcessor(
+          [createSessionEvent('ses-parent'), createAssistantMessageEvent('ses-child', 'msg-child')],
+          {
+            sessionLookup: SessionLookup.of({
+              getSession: () => Effect.succeed({ title: 'Explore', parentId: 'ses-parent' }),
+            }),
+          }
+        )
+      );
+
+      const child = sessions.get('ses-child');
+      expect(child?.traceId).toBe(sessionToUUID('ses-parent'));
+      expect(child?.parentSessionId).toBe('ses-parent');
+      expect(generations[0]).toMatchObject({
+        traceId: sessionToUUID('ses-parent'),
+        parentObservationId: generateObservationId('ses-child', 'subagent'),
+      });
+    });
+  });
+});
+
+describe('session.error handling', () => {
+  const failedMessage = (sessionId: string, messageId: string): MessageEvent => ({
+    ...createAssistantMessageEvent(sessionId, messageId),
+    errorName: 'APIError',
+  });
+
+  it('should move the error span under the failing generation once it completes', async () => {
+    // OpenCode publishes session.error before the failing message completes
+    const { spans } = await Effect.runPromise(
+      runProcessor([
+        createSessionEvent('session-err'),
+        createAssistantMessageEvent('session-err', 'msg-ok'),
+        createSessionErrorEvent('session-err'),
+        failedMessage('session-err', 'msg-failed'),
+      ])
+    );
+
+    const errorSpans = spans.filter((s) => s.name === 'session-error');
+    expect(errorSpans).toHaveLength(2);
+    expect(errorSpans[0].parentObservationId).toBeUndefined();
+    expect(errorSpans[0].level).toBe('ERROR');
+    expect(errorSpans[0].statusMessage).toBe('Rate limit exceeded');
+    expect(errorSpans[0].metadata).toMatchObject({
+      error_name: 'APIError',
+      provider_id: 'anthropic',
+      status_code: 429,
+      is_retryable: true,
+    });
+    expect(errorSpans[1].id).toBe(errorSpans[0].id);
+    expect(errorSpans[1].parentObservationId).toBe(
+      generateObservationId('session-err', 'message', 'msg-failed')
+    );
+    expect(errorSpans[1].metadata).toEqual({ message_id: 'msg-failed' });
+  });
+
+  it('should link the error to the latest assistant message when it already failed', async () => {
+    const { spans, sessions } = await Effect.runPromise(
+      runProcessor([
+        createSessionEvent('session-err-late'),
+        failedMessage('session-err-late', 'msg-failed'),
+        createSessionErrorEvent('session-err-late'),
+      ])
+    );
+
+    const errorSpans = spans.filter((s) => s.name === 'session-error');
+    expect(errorSpans).toHaveLength(1);
+    expect(errorSpans[0].parentObservationId).toBe(
+      sessions.get('session-err-late')?.messages.get('msg-failed')?.observationId
+    );
+    expect(errorSpans[0].metadata).toMatchObject({ message_id: 'msg-failed' });
+  });
+
+  it('should keep the error at the trace root when no failed message follows', async () => {
+    const { spans } = await Effect.runPromise(
+      runProcessor([
+        createSessionEvent('session-err-root'),
+        createSessionErrorEvent('session-err-root'),
+        createAssistantMessageEvent('session-err-root', 'msg-next'),
+      ])
+    );
+
+    const errorSpans = spans.filter((s) => s.name === 'session-error');
+    expect(errorSpans).toHaveLength(1);
+    expect(errorSpans[0].parentObservationId).toBeUndefined();
+  });
+});
+
+describe('session.status handling', () => {
+  it('should open a busy span, record retries and close it on idle', async () => {
+    const start = 1_700_000_000_000;
+    const expectOpenSpans = (count: number) =>
+      Effect.gen(function* () {
+        yield* TestClock.adjust('1 millis');
+        const state = yield* Effect.flatMap(SessionState, (s) => s.get('session-status'));
+        expect(state?.spans.size).toBe(count);
+      });
+
+    const { spans, sessions } = await Effect.runPromise(
+      runProcessor([
+        createSessionEvent('session-status'),
+        createSessionStatusEvent('session-status', 'busy', start),
+        createSessionStatusEvent('session-status', 'retry', start + 1000, {
+          attempt: 1,
+          reason: 'Overloaded',
+          nextRetryAt: start + 3000,
+        }),
+        createSessionStatusEvent('session-status', 'busy', start + 3000),
+        expectOpenSpans(1),
+        createSessionStatusEvent('session-status', 'idle', start + 5000),
+      ])
+    );
+
+    const busySpans = spans.filter((s) => s.name === 'agent-busy');
+    const retrySpan = spans.find((s) => s.name === 'provider-retry');
+
+    // One open + one close, both targeting the same span
+    expect(busySpans.length).toBe(2);
+    expect(busySpans[0].id).toBe(busySpans[1].id);
+    expect(busySpans[0].startTime).toEqual(new Date(start));
+    expect(busySpans[1].endTime).toEqual(new Date(start + 5000));
+
+    expect(retrySpan?.parentObservationId).toBe(busySpans[0].id);
+    expect(retrySpan?.level).toBe('WARNING');
+    expect(retrySpan?.statusMessage).toBe('Overloaded');
+    expect(retrySpan?.metadata).toMatchObject({ attempt: 1, retry_delay_ms: 2000 });
+
+    expect(sessions.get('session-status')?.spans.size).toBe(0);
+  });
+});
+
+describe('compaction handling', () => {
+  const compacting: SessionCompactingEvent = {
+    type: 'session.compacting',
+    eventKey: 'session-compact:session.compacting:1',
+    timestamp: Date.now(),
+    sessionId: 'session-compact',
+    context: ['token sk_abcdefghijklmnopqrstuvwxyz'],
+  };
+  const summary: MessageEvent = {
+    ...createAssistantMessageEvent('session-compact', 'msg-summary'),
+    summary: true,
+    usage: { promptTokens: 90000, completionTokens: 2000 },
+  };
+  const compacted: SessionCompactedEvent = {
+    type: 'session.compacted',
+    eventKey: 'session-compact:session.compacted:2',
+    timestamp: Date.now(),
+    sessionId: 'session-compact',
+  };
+
+  it('should record a compaction span with before/after token counts', async () => {
+    const { spans, generations, traces, sessions } = await Effect.runPromise(
+      runProcessor([
+        createSessionEvent('session-compact'),
+        {
+          ...createAssistantMessageEvent('session-compact', 'msg-before'),
+          usage: { promptTokens: 120000, completionTokens: 500 },
+        },
+        compacting,
+        summary,
+        compacted,
+      ])
+    );
+
+    const compactionSpans = spans.filter((s) => s.name === 'compaction');
+    const summaryGeneration = generations.find((g) => g.name === 'compaction-summary');
+
+    expect(compactionSpans.length).toBe(2);
+    expect(compactionSpans[0].input).toEqual({
+      prompt: null,
+      context: ['token [REDACTED]'],
+    });
+    expect(compactionSpans[1].id).toBe(compactionSpans[0].id);
+    expect(compactionSpans[1].metadata).toEqual({
+      compaction_number: 1,
+      tokens_before: 120000,
+      tokens_after: 2000,
+      tokens_saved: 118000,
+    });
+    expect(summaryGeneration?.parentObservationId).toBe(compactionSpans[0].id);
+    expect(traces.at(-1)?.metadata).toEqual({ compactions: 1 });
+
+    const state = sessions.get('session-compact');
+    expect(state?.compactionCount).toBe(1);
+    expect(state?.pendingCompaction).toBeUndefined();
+  });
+
+  it('should count cached tokens in the context size before compaction', async () => {
+    const { spans } = await Effect.runPromise(
+      runProcessor([
+        createSessionEvent('session-compact'),
+        {
+          ...createAssistantMessageEvent('session-compact', 'msg-before'),
+          usage: {
+            promptTokens: 2000,
+            completionTokens: 500,
+            cacheReadTokens: 110000,
+            cacheWriteTokens: 8000,
+          },
+        },
+        compacting,
+        summary,
+        compacted,
+      ])
+    );
+
+    expect(spans.filter((s) => s.name === 'compaction').at(-1)?.metadata).toEqual({
+      compaction_number: 1,
+      tokens_before: 120000,
+      tokens_after: 2000,
+      tokens_saved: 118000,
+    });
+  });
+});
+
+describe('reasoning parts', () => {
+  const reasoningPart = (sessionId: string, messageId: string): MessagePartEvent => ({
+    type: 'message.part.updated',
+    eventKey: 'part-reasoning',
+    timestamp: Date.now(),
+    sessionId,
+    messageId,
+    partId: 'part-reasoning',
+    partType: 'reasoning',
+    content: 'Let me think about the token sk_abcdefghijklmnopqrstuvwxyz',
+    time: { start: 1_700_000_000_000, end: 1_700_000_004_000 },
+  });
+
+  // Reasoning parts are debounced like text
+  const runReasoning = (config: LangfuseExporterConfig) =>
+    runProcessor(
+      [
+        createSessionEvent('session-reasoning'),
+        createAssistantMessageEvent('session-reasoning', 'msg-1'),
+        reasoningPart('session-reasoning', 'msg-1'),
+      ],
+      { config }
+    ).pipe(Effect.map(({ spans }) => spans.find((s) => s.name === 'reasoning')));
+
+  it('should export reasoning as a timed child span of the generation', async () => {
+    const span = await Effect.runPromise(runReasoning(mockConfig));
+
+    expect(span).toBeDefined();
+    expect(span?.output).toBe('Let me think about the token [REDACTED]');
+    expect(span?.startTime).toEqual(new Date(1_700_000_000_000));
+    expect(span?.endTime).toEqual(new Date(1_700_000_004_000));
+    expect(span?.metadata).toMatchObject({ content_excluded: false });
+  });
+
+  it('should drop reasoning content but keep timing when excludeReasoning is set', async () => {
+    const span = await Effect.runPromise(runReasoning({ ...mockConfig, excludeReasoning: true }));
+
+    expect(span).toBeDefined();
+    expect(span?.output).toBeUndefined();
+    expect(span?.endTime).toEqual(new Date(1_700_000_004_000));
+    expect(span?.metadata).toMatchObject({ content_excluded: true });
+  });
+});
+
+describe('trace fields', () => {
+  const text = (messageId: string, content: string): MessagePartEvent => ({
+    type: 'message.part.updated',
+    eventKey: `${messageId}:text`,
+    timestamp: Date.now(),
+    sessionId: 'session-fields',
+    messageId,
+    partId: `${messageId}:text`,
+    partType: 'text',
+    content,
+    time: { start: Date.now(), end: Date.now() },
+  });
+
+  const user = (messageId: string): MessageEvent => ({
+    type: 'message.updated',
+    eventKey: messageId,
+    timestamp: Date.now(),
+    sessionId: 'session-fields',
+    messageId,
+    role: 'user',
+  });
+
+  it('should set input, output, tags and userId on the trace', async () => {
+    const { traces } = await Effect.runPromise(
+      runProcessor(
+        [
+          createSessionEvent('session-fields'),
+          {
+            type: 'chat.message',
+            eventKey: 'session-fields:chat:msg-1',
+            timestamp: Date.now(),
+            sessionId: 'session-fields',
+            messageId: 'msg-1',
+            model: 'anthropic/claude-sonnet',
+            agent: 'build',
+          } satisfies ChatMessageEvent,
+          user('msg-1'),
+          text('msg-1', 'First prompt'),
+          createAssistantMessageEvent('session-fields', 'msg-2'),
+          text('msg-2', 'First answer'),
+          user('msg-3'),
+          text('msg-3', 'Second prompt'),
+          { ...createAssistantMessageEvent('session-fields', 'msg-4'), model: 'openai/gpt-5' },
+          text('msg-4', 'Second answer'),
+        ],
+        { config: { ...mockConfig, userId: 'dev@example.com', userIdSource: 'env' } }
+      )
+    );
+
+    expect(traces[0].userId).toBe('dev@example.com');
+    expect(traces.filter((t) => t.input !== undefined).map((t) => t.input)).toEqual([
+      'First prompt',
+    ]);
+    expect(traces.filter((t) => t.output !== undefined).at(-1)?.output).toBe('Second answer');
+    expect(traces.filter((t) => t.tags !== undefined).at(-1)?.tags).toEqual([
+      'agent:build',
+      'provider:anthropic',
+      'model:claude-sonnet',
+      'provider:openai',
+      'model:gpt-5',
+    ]);
+  });
+
+  it('should never resend the raw title in trace updates', async () => {
+    const { traces } = await Effect.runPromise(
+      runProcessor(
+        [
+          createSessionEvent('session-fields', 'Fix the login bug'),
+          user('msg-1'),
+          text('msg-1', 'First prompt'),
+          createAssistantMessageEvent('session-fields', 'msg-2'),
+          text('msg-2', 'First answer'),
+        ],
+        { config: { ...mockConfig, exportMode: 'metadata_only' } }
+      )
+    );
+
+    expect(traces.length).toBeGreaterThan(1);
+    expect(traces.every((t) => t.name === '[REDACTED]')).toBe(true);
+  });
+});
+
+describe('session totals', () => {
+  const assistant = (messageId: string, cost: number): MessageEvent => ({
+    ...createAssistantMessageEvent('session-totals', messageId),
+    cost,
+    usage: {
+      promptTokens: 100,
+      completionTokens: 50,
+      reasoningTokens: 10,
+      cacheReadTokens: 300,
+      cacheWriteTokens: 100,
+    },
+  });
+
+  const toolPart = (partId: string, toolStatus: 'completed' | 'error'): MessagePartEvent => ({
+    type: 'message.part.updated',
+    eventKey: partId,
+    timestamp: Date.now(),
+    sessionId: 'session-totals',
+    messageId: 'msg-1',
+    partId,
+    partType: 'tool-call',
+    toolName: 'edit',
+    toolStatus,
+  });
+
+  // Each diff covers the whole session so far
+  const diff = (timestamp: number, files: string[]): SessionDiffEvent => ({
+    type: 'session.diff',
+    eventKey: `session-totals:diff:${timestamp}`,
+    timestamp,
+    sessionId: 'session-totals',
+    diffs: files.map((file) => ({ file, additions: 1, deletions: 0 })),
+  });
+
+  it('should roll up cost, tokens, tools and files as trace metadata', async () => {
+    const { traces, spans } = await Effect.runPromise(
+      runProcessor([
+        createSessionEvent('session-totals'),
+        // Tool parts arrive before the assistant message completes
+        toolPart('tool-1', 'completed'),
+        toolPart('tool-2', 'error'),
+        assistant('msg-1', 0.1),
+        diff(1_700_000_000_000, ['a.ts', 'b.ts']),
+        assistant('msg-2', 0.2),
+        diff(1_700_000_001_000, ['a.ts', 'b.ts', 'c.ts']),
+      ])
+    );
+
+    const rollups = traces
+      .map((t) => t.metadata)
+      .filter((metadata) => metadata?.total_cost !== undefined);
+
+    expect(rollups).toHaveLength(2);
+    expect(rollups[0]).toMatchObject({ total_cost: 0.1, tool_calls: 2, tool_errors: 1 });
+    expect(rollups[1]).toEqual({
+      total_cost: 0.3,
+      input_tokens: 200,
+      output_tokens: 100,
+      reasoning_tokens: 20,
+      cache_read_tokens: 600,
+      cache_write_tokens: 200,
+      generations: 2,
+      tool_calls: 2,
+      tool_errors: 1,
+      files_changed: 2,
+      cache_hit_ratio: 0.6,
+    });
+
+    const fileChanges = spans.filter((s) => s.name === 'file-changes');
+    expect(fileChanges.at(-1)).toMatchObject({
+      parentObservationId: generateObservationId('session-totals', 'message', 'msg-2'),
+      metadata: { files_changed: 3, files: 'a.ts, b.ts, c.ts' },
+    });
+  });
+});
+
+describe('generation cost', () => {
+  const assistant = (messageId: string, cost: number): MessageEvent => ({
+    ...createAssistantMessageEvent('session-cost', messageId),
+    model: 'ollama/llama3',
+    cost,
+    usage: { promptTokens: 1_000_000, completionTokens: 500_000 },
+  });
+
+  it('should estimate the cost from the pricing catalog when none is reported', async () => {
+    const { generations } = await Effect.runPromise(
+      runProcessor(
+        [
+          createSessionEvent('session-cost'),
+          assistant('msg-estimated', 0),
+          assistant('msg-reported', 0.5),
+        ],
+        { config: { ...mockConfig, modelPricing: { 'ollama/llama3': { input: 1, output: 2 } } } }
+      )
+    );
+
+    expect(generations[0].costDetails).toEqual({ input: 1, output: 1, total: 2 });
+    expect(generations[0].metadata).toEqual({ cost_source: 'estimated' });
+    expect(generations[1].costDetails).toEqual({ total: 0.5 });
+    expect(generations[1].metadata).toEqual({ cost_source: 'reported' });
+  });
+});
+
+describe('subagent sessions', () => {
+  const runSubagentSession = (subagentTraces: 'nested' | 'linked') =>
+    runProcessor(
+      [
+        createSessionEvent('ses-parent'),
+        createAssistantMessageEvent('ses-parent', 'msg-parent'),
+        {
+          ...createSessionEvent('ses-child', 'Explore (@explore subagent)'),
+          parentId: 'ses-parent',
+        },
+        createAssistantMessageEvent('ses-child', 'msg-child'),
+        {
+          type: 'message.part.updated',
+          eventKey: 'part-child-text',
+          timestamp: Date.now(),
+          sessionId: 'ses-child',
+          messageId: 'msg-child',
+          partId: 'part-child-text',
+          partType: 'text',
+          content: 'Child answer',
+          time: { start: Date.now(), end: Date.now() },
+        } satisfies MessagePartEvent,
+        // The task tool completes once its subagent session is done
+        {
+          type: 'message.part.updated',
+          eventKey: 'part-task',
+          timestamp: Date.now(),
+          sessionId: 'ses-parent',
+          messageId: 'msg-parent',
+          partId: 'part-task',
+          partType: 'tool-call',
+          toolName: 'task',
+          toolStatus: 'completed',
+          callId: 'call-task',
+          childSessionId: 'ses-child',
+        } satisfies MessagePartEvent,
+      ],
+      { config: { ...mockConfig, subagentTraces } }
+    );
+
+  const parentTraceId = sessionToUUID('ses-parent');
+  const childTraceId = sessionToUUID('ses-child');
+  const taskSpanId = generateObservationId('ses-parent', 'tool', 'msg-parent', 'call-task');
+
+  it('should nest a subagent session under the task tool call in the parent trace', async () => {
+    const { traces, spans, generations } = await Effect.runPromise(runSubagentSession('nested'));
+    const rootSpanId = generateObservationId('ses-child', 'subagent');
+
+    expect(traces.every((t) => t.id === parentTraceId)).toBe(true);
+
+    const rootSpans = spans.filter((span) => span.id === rootSpanId);
+    expect(rootSpans[0]).toMatchObject({
+      traceId: parentTraceId,
+      name: 'Explore (@explore subagent)',
+      metadata: { session_id: 'ses-child', parent_session_id: 'ses-parent' },
+    });
+    expect(rootSpans.some((span) => span.output === 'Child answer')).toBe(true);
+    expect(rootSpans.at(-1)?.parentObservationId).toBe(taskSpanId);
+
+    const childGeneration = generations.find(
+      (g) => g.id === generateObservationId('ses-child', 'message', 'msg-child')
+    );
+    expect(childGeneration?.traceId).toBe(parentTraceId);
+    expect(childGeneration?.parentObservationId).toBe(rootSpanId);
+
+    const taskSpan = spans.find((s) => s.id === taskSpanId);
+    expect(taskSpan?.metadata).toMatchObject({ child_session_id: 'ses-child' });
+  });
+
+  it('should link a subagent trace to its parent in the same Langfuse session', async () => {
+    const { traces, spans } = await Effect.runPromise(runSubagentSession('linked'));
+
+    const childTraces = traces.filter((t) => t.id === childTraceId);
+    expect(childTraces[0].metadata).toEqual({
+      parent_session_id: 'ses-parent',
+      parent_trace_id: parentTraceId,
+    });
+    expect(childTraces.every((t) => t.sessionId === 'ses-parent')).toBe(true);
+    expect(childTraces.some((t) => t.output === 'Child answer')).toBe(true);
+
+    const taskSpan = spans.find((s) => s.id === taskSpanId);
+    expect(taskSpan?.metadata).toMatchObject({
+      child_session_id: 'ses-child',
+      child_trace_id: childTraceId,
+    });
+  });
+});
+
+describe('generation input', () => {
+  const userMessage = (messageId: string): MessageEvent => ({
+    type: 'message.updated',
+    eventKey: messageId,
+    timestamp: Date.now(),
+    sessionId: 'session-input',
+    messageId,
+    role: 'user',
+  });
+
+  const assistantMessage = (messageId: string, parentId: string): MessageEvent => ({
+    ...createAssistantMessageEvent('session-input', messageId),
+    parentId,
+  });
+
+  const finalText = (messageId: string, content: string): MessagePartEvent => ({
+    type: 'message.part.updated',
+    eventKey: `${messageId}:text`,
+    timestamp: Date.now(),
+    sessionId: 'session-input',
+    messageId,
+    partId: `${messageId}:text`,
+    partType: 'text',
+    content,
+    time: { start: Date.now(), end: Date.now() },
+  });
+
+  const runConversation = (events: PluginEvent[], config = mockConfig) =>
+    runProcessor([createSessionEvent('session-input'), ...events], { config }).pipe(
+      Effect.map(({ generations }) => generations.filter((g) => g.input !== undefined))
+    );
+
+  it('should use the redacted parent user message as input', async () => {
+    const inputs = await Effect.runPromise(
+      runConversation(
+        [
+          userMessage('msg-user'),
+          finalText('msg-user', 'Deploy with token sk-secret'),
+          assistantMessage('msg-assistant', 'msg-user'),
+        ],
+        { ...mockConfig, redactPatterns: [/sk-\w+/g] }
+      )
+    );
+
+    expect(inputs).toHaveLength(1);
+    expect(inputs[0].id).toBe(generateObservationId('session-input', 'message', 'msg-assistant'));
+    expect(inputs[0].input).toEqual([{ role: 'user', content: 'Deploy with token [REDACTED]' }]);
+  });
+
+  it('should fill in the input when the user text arrives after the reply', async () => {
+    const inputs = await Effect.runPromise(
+      runConversation([
+        userMessage('msg-user'),
+        assistantMessage('msg-assistant', 'msg-user'),
+        finalText('msg-user', 'What changed?'),
+      ])
+    );
+
+    expect(inputs.map((g) => g.input)).toEqual([[{ role: 'user', content: 'What changed?' }]]);
+  });
+
+  it('should include earlier turns when generationInputTurns is set', async () => {
+    const inputs = await Effect.runPromise(
+      runConversation(
+        [
+          userMessage('msg-user-1'),
+          finalText('msg-user-1', 'List the files'),
+          assistantMessage('msg-assistant-1', 'msg-user-1'),
+          finalText('msg-assistant-1', 'a.ts and b.ts'),
+          userMessage('msg-user-2'),
+          finalText('msg-user-2', 'Open a.ts'),
+          assistantMessage('msg-assistant-2', 'msg-user-2'),
+        ],
+        { ...mockConfig, generationInputTurns: 2 }
+      )
+    );
+
+    expect(inputs.at(-1)?.input).toEqual([
+      { role: 'user', content: 'List the files' },
+      { role: 'assistant', content: 'a.ts and b.ts' },
+      { role: 'user', content: 'Open a.ts' },
+    ]);
+  });
+});
+
+describe('orphan parts', () => {
+  const textPart = (sessionId: string, messageId: string): MessagePartEvent => ({
+    type: 'message.part.updated',
+    eventKey: `${messageId}:text`,
+    timestamp: Date.now(),
+    sessionId,
+    messageId,
+    partId: `${messageId}:text`,
+    partType: 'text',
+    content: 'Output streamed before the message completed',
+  });
+
+  // Offer a part, let its debounce run out, then wait `delay` before its message arrives
+  const runWithLateMessage = (delay: Duration.DurationInput) =>
+    runProcessor(
+      [
+        createSessionEvent('session-orphan'),
+        textPart('session-orphan', 'msg-late'),
+        TestClock.adjust('10 seconds'),
+        TestClock.adjust(delay),
+        createAssistantMessageEvent('session-orphan', 'msg-late'),
+      ],
+      { elapsed: '1 second' }
+    ).pipe(Effect.map(({ generations }) => generations.filter((g) => g.output !== undefined)));
+
+  it('should hold parts until their message registers', async () => {
+    const outputs = await Effect.runPromise(runWithLateMessage('5 minutes'));
+
+    expect(outputs).toHaveLength(1);
+    expect(outputs[0].output).toBe('Output streamed before the message completed');
+  });
+
+  it('should drop parts whose message does not arrive in time', async () => {
+    const outputs = await Effect.runPromise(
+      runWithLateMessage(Duration.sum(ORPHAN_PART_TIMEOUT, '1 second'))
+    );
+
+    expect(outputs).toEqual([]);
+  });
+});
+
+describe('step parts', () => {
+  const t0 = 1_700_000_000_000;
+  const part = (
+    partId: string,
+    timestamp: number,
+    fields: Partial<MessagePartEvent>
+  ): MessagePartEvent => ({
+    type: 'message.part.updated',
+    eventKey: partId,
+    timestamp,
+    sessionId: 'session-steps',
+    messageId: 'msg-steps',
+    partId,
+    partType: 'text',
+    ...fields,
+  });
+
+  it('should emit one generation per step with tools nested under their step', async () => {
+    const { generations, spans } = await Effect.runPromise(
+      runProcessor([
+        createSessionEvent('session-steps'),
+        part('step-1', t0, { partType: 'step-start' }),
+        part('tool-1', t0 + 500, { partType: 'tool-call', toolName: 'read' }),
+        part('finish-1', t0 + 1000, {
+          partType: 'step-finish',
+          finishReason: 'tool-calls',
+          cost: 0.01,
+          usage: { promptTokens: 1000, completionTokens: 20 },
+        }),
+        part('step-2', t0 + 1100, { partType: 'step-start' }),
+        part('text-1', t0 + 1500, { partType: 'text', content: 'Done' }),
+        part('finish-2', t0 + 2000, {
+          partType: 'step-finish',
+          finishReason: 'stop',
+          cost: 0.02,
+          usage: { promptTokens: 1100, completionTokens: 30 },
+        }),
+        { ...createAssistantMessageEvent('session-steps', 'msg-steps'), cost: 0.03 },
+      ])
+    );
+
+    const messageGeneration = generations.find((g) => g.name === 'assistant-response');
+    const stepGenerations = generations.filter((g) => g.name === 'llm-step' && g.model);
+    const toolSpan = spans.find((s) => s.name === 'tool-read');
+    const stepOutput = generations.find((g) => g.name === 'llm-step' && g.output);
+
+    expect(messageGeneration?.usageDetails).toBeUndefined();
+    expect(messageGeneration?.costDetails).toBeUndefined();
+    expect(messageGeneration?.metadata).toMatchObject({ steps: 2, total_cost: 0.03 });
+
+    expect(stepGenerations.length).toBe(2);
+    expect(stepGenerations[0].parentObservationId).toBe(messageGeneration?.id);
+    expect(stepGenerations[0].usageDetails).toEqual({ input: 1000, output: 20 });
+    expect(stepGenerations[0].costDetails).toEqual({ total: 0.01 });
+    expect(stepGenerations[0].startTime).toEqual(new Date(t0));
+    expect(stepGenerations[0].endTime).toEqual(new Date(t0 + 1000));
+    expect(stepGenerations[1].metadata).toMatchObject({ step_index: 1, finish_reason: 'stop' });
+
+    expect(toolSpan?.parentObservationId).toBe(stepGenerations[0].id);
+    expect(stepOutput?.id).toBe(stepGenerations[1].id);
+    expect(stepOutput?.output).toBe('Done');
+  });
+});
+
+describe('tool parts', () => {
+  const toolPart = (partId: string, fields: Partial<MessagePartEvent>): MessagePartEvent => ({
+    type: 'message.part.updated',
+    eventKey: partId,
+    timestamp: Date.now(),
+    sessionId: 'session-tools',
+    messageId: 'msg-tools',
+    partId,
+    partType: 'tool-call',
+    toolInput: { command: 'ls' },
+    time: { start: 1_700_000_000_000, end: 1_700_000_001_500 },
+    ...fields,
+  });
+
+  it('should time tool spans from tool state and mark errors', async () => {
+    const { spans } = await Effect.runPromise(
+      runProcessor([
+        createSessionEvent('session-tools'),
+        createAssistantMessageEvent('session-tools', 'msg-tools'),
+        toolPart('tool-ok', {
+          toolName: 'bash',
+          toolStatus: 'completed',
+          toolTitle: 'List files',
+          toolOutput: 'README.md',
+          callId: 'call-1',
+        }),
+        toolPart('tool-failed', {
+          toolName: 'edit',
+          toolStatus: 'error',
+          toolError: 'File not found',
+          callId: 'call-2',
+        }),
+      ])
+    );
+
+    const okSpan = spans.find((s) => s.name === 'tool-bash');
+    const failedSpan = spans.find((s) => s.name === 'tool-edit');
+
+    expect(okSpan?.startTime).toEqual(new Date(1_700_000_000_000));
+    expect(okSpan?.endTime).toEqual(new Date(1_700_000_001_500));
+    expect(okSpan?.level).toBeUndefined();
+    expect(okSpan?.metadata).toEqual({
+      tool: 'bash',
+      status: 'completed',
+      call_id: 'call-1',
+      title: 'List files',
+    });
+
+    expect(failedSpan?.level).toBe('ERROR');
+    expect(failedSpan?.statusMessage).toBe('File not found');
+    expect(failedSpan?.metadata).toMatchObject({ status: 'error', call_id: 'call-2' });
+  });
+});
+
+describe('observation IDs', () => {
+  it('should reuse the same observation IDs when events are re-processed after a restart', async () => {
+    // Each run gets fresh in-memory state, like a new plugin process
+    const runOnce = runProcessor([
+      createSessionEvent('session-restart'),
+      createAssistantMessageEvent('session-restart', 'msg-1'),
+      {
+        type: 'message.part.updated',
+        eventKey: 'part-tool',
+        timestamp: Date.now(),
+        sessionId: 'session-restart',
+        messageId: 'msg-1',
+        partId: 'part-tool',
+        partType: 'tool-call',
+        toolName: 'read',
+        callId: 'call-1',
+      },
+    ]).pipe(
+      Effect.map(({ calls }) =>
+        calls
+          .filter((c) => c.type === 'generation' || c.type === 'span')
+          .map((c) => (c.data as SpanData).id)
+      )
+    );
+
+    const firstRun = await Effect.runPromise(runOnce);
+    const secondRun = await Effect.runPromise(runOnce);
+
+    expect(firstRun.length).toBe(2);
+    expect(firstRun.every((id) => id !== undefined)).toBe(true);
+    expect(secondRun).toEqual(firstRun);
+  });
+});
+
+describe('completion-driven processing', () => {
+  const textPart = (
+    messageId: string,
+    time?: { start: number; end: number }
+  ): MessagePartEvent => ({
+    ..._createMessagePartEvent('session-complete', messageId, `part-${messageId}`, 'Answer'),
+    time,
+  });
+
+  const runParts = (
+    events: PluginEvent[],
+    elapsed: Duration.DurationInput,
+    config: LangfuseExporterConfig = mockConfig
+  ) =>
+    runProcessor([createSessionEvent('session-complete'), ...events], { config, elapsed }).pipe(
+      Effect.map(({ generations }) => generations.some((g) => g.output === 'Answer'))
+    );
+
+  it('should process ended text parts without waiting for the debounce', async () => {
+    const exported = await Effect.runPromise(
+      runParts(
+        [
+          createAssistantMessageEvent('session-complete', 'msg-1'),
+          textPart('msg-1', { start: 1, end: 2 }),
+        ],
+        '1 millis'
+      )
+    );
+
+    expect(exported).toBe(true);
+  });
+
+  it('should process final parts as soon as their message completes', async () => {
+    const exported = await Effect.runPromise(
+      runParts(
+        [
+          // The part ends before the assistant message is registered
+          textPart('msg-1', { start: 1, end: 2 }),
+          createAssistantMessageEvent('session-complete', 'msg-1'),
+        ],
+        '1 millis'
+      )
+    );
+
+    expect(exported).toBe(true);
+  });
+
+  it('should debounce parts without a completion marker for debounceMs', async () => {
+    const config = { ...mockConfig, debounceMs: 2000 };
+    const events = [createAssistantMessageEvent('session-complete', 'msg-1'), textPart('msg-1')];
+
+    expect(await Effect.runPromise(runParts(events, '1 second', config))).toBe(false);
+    expect(await Effect.runPromise(runParts(events, '2 seconds', config))).toBe(true);
+  });
+});
+
+describe('graceful shutdown', () => {
+  // Shut down well inside the debounce window
+  const runShutdown = (options: RunOptions = {}) =>
+    runProcessor(
+      [
+        createSessionEvent('session-shutdown'),
+        createAssistantMessageEvent('session-shutdown', 'msg-1'),
+        _createMessagePartEvent('session-shutdown', 'msg-1', 'part-1', 'Final answer'),
+      ],
+      { drain: true, elapsed: '1 second', ...options }
+    );
+
+  it('should process debounced parts on shutdown instead of dropping them', async () => {
+    const { completed, calls, generations } = await Effect.runPromise(runShutdown());
+
+    expect(completed).toBe(true);
+    expect(generations.map((g) => g.output)).toContain('Final answer');
+    // Flush runs after the drained events were exported
+    expect(calls[calls.length - 1].type).toBe('flush');
+  });
+
+  it('should not wait forever for a stalled flush', async () => {
+    // Advancing past the flush timeout lets shutdown complete
+    const { completed, generations } = await Effect.runPromise(
+      runShutdown({
+        exporter: (exporter) => TraceExporter.of({ ...exporter, flush: Effect.never }),
+        elapsed: '6 seconds',
+      })
+    );
+
+    expect(completed).toBe(true);
+    expect(generations.some((g) => g.output === 'Final answer')).toBe(true);
   });
 });
 
@@ -257,15 +1382,18 @@ describe('getEventKey', () => {
     expect(getEventKey(event)).toBe('part-123');
   });
 
-  it('should use sessionId for session events', async () => {
+  it('should use composite key for session events', async () => {
     const { getEventKey } = await import('../src/effect/streams/types');
     const event: SessionEvent = {
       type: 'session.created',
       eventKey: 'ignored',
-      timestamp: Date.now(),
+      timestamp: 1_700_000_000_000,
       sessionId: 'session-456',
     };
-    expect(getEventKey(event)).toBe('session-456');
+    expect(getEventKey(event)).toBe('session-456:session.created:1700000000000');
+    expect(getEventKey({ ...event, type: 'session.updated' })).toBe(
+      'session-456:session.updated:1700000000000'
+    );
   });
 
   it('should use composite key for session.diff events', async () => {
@@ -273,12 +1401,11 @@ describe('getEventKey', () => {
     const event: SessionDiffEvent = {
       type: 'session.diff',
       eventKey: 'ignored',
-      timestamp: Date.now(),
+      timestamp: 1_700_000_000_000,
       sessionId: 'session-789',
-      messageId: 'msg-abc',
       diffs: [],
     };
-    expect(getEventKey(event)).toBe('session-789:diff:msg-abc');
+    expect(getEventKey(event)).toBe('session-789:diff:1700000000000');
   });
 
   it('should use composite key for chat.message events', async () => {
@@ -295,17 +1422,16 @@ describe('getEventKey', () => {
     expect(getEventKey(event)).toBe('session-xyz:chat.message:msg-123');
   });
 
-  it('should use sessionId for chat.params events (falls through to default)', async () => {
+  it('should use composite key for chat.params events', async () => {
     const { getEventKey } = await import('../src/effect/streams/types');
     const event: ChatParamsEvent = {
       type: 'chat.params',
       eventKey: 'ignored',
-      timestamp: Date.now(),
+      timestamp: 1_700_000_000_000,
       sessionId: 'session-params',
       params: { temperature: 0.7 },
     };
-    // chat.params doesn't have a special case, uses sessionId (default)
-    expect(getEventKey(event)).toBe('session-params');
+    expect(getEventKey(event)).toBe('session-params:chat.params:1700000000000');
   });
 });
 
@@ -0,0 +1,383 @@
+/**
+ * Unit tests for the Langfuse ingestion client, run against a local stub server.
+ */
+import { rm } from 'node:fs/promises';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { Duration, Effect, Fiber, Layer, Option, TestClock, TestContext } from 'effect';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  CIRCUIT_FAILURE_THRESHOLD,
+  CIRCUIT_RESET_TIMEOUT,
+  INGESTION_BATCH_SIZE,
+} from '../src/effect/constants';
+import { makeLangfuseClient, type LangfuseClient } from '../src/effect/services/LangfuseClient';
+import { Outbox, OutboxPersistent, OutboxTest } from '../src/effect/services/Outbox';
+import { loadConfig } from '../src/lib/config';
+import type { IngestionEvent } from '../src/lib/langfuse-ingestion';
+
+interface ReceivedRequest {
+  url?: string;
+  headers: IncomingHttpHeaders;
+  batch: IngestionEvent[];
+}
+
+type Responder = (batch: IngestionEvent[]) => { status: number; body?: unknown };
+
+describe('LangfuseClient', () => {
+  let server: Server;
+  let requests: ReceivedRequest[];
+  let responders: Responder[];
+  let available: boolean;
+  let healthChecks: number;
+  let host: string;
+
+  beforeEach(async () => {
+    requests = [];
+    responders = [];
+    available = true;
+    healthChecks = 0;
+    server = createServer((req, res) => {
+      if (req.method === 'GET') {
+        healthChecks++;
+        res.writeHead(available ? 200 : 503).end();
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        const { batch } = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+        requests.push({ url: req.url, headers: req.headers, batch });
+
+        // Use the next queued response, or accept everything while available
+        const respond: Responder =
+          responders.shift() ?? (() => ({ status: available ? 200 : 503 }));
+        const { status, body } = respond(batch);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(body === undefined ? '' : JSON.stringify(body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    host = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const withClient = <A, E>(
+    use: (client: LangfuseClient) => Effect.Effect<A, E, Outbox>,
+    outboxLayer: Layer.Layer<Outbox> = OutboxTest
+  ) =>
+    Effect.scoped(
+      Effect.flatMap(
+        makeLangfuseClient({
+          ...loadConfig(),
+          host,
+          publicKey: 'pk-test',
+          secretKey: 'sk-test',
+          flushInterval: 60_000,
+        }),
+        use
+      )
+    ).pipe(Effect.provide(outboxLayer));
+
+  const runClient = <A, E>(
+    use: (client: LangfuseClient) => Effect.Effect<A, E, Outbox>,
+    outboxLayer?: Layer.Layer<Outbox>
+  ) => Effect.runPromise(withClient(use, outboxLayer));
+
+  const createEvents = (client: LangfuseClient) =>
+    Effect.gen(function* () {
+      yield* client.createTrace({ id: 'trace-1', sessionId: 'ses_1', name: 'Test' });
+      yield* client.createGeneration({
+        id: 'gen-1',
+        traceId: 'trace-1',
+        name: 'assistant-response',
+        model: 'claude-sonnet',
+      });
+      yield* client.createSpan({ traceId: 'trace-1', name: 'tool:bash' });
+    });
+
+  // 207 body failing the events matched by `predicate` with `status`
+  const multiStatus =
+    (status: number, predicate: (event: IngestionEvent) => boolean): Responder =>
+    (batch) => ({
+      status: 207,
+      body: {
+        successes: batch.filter((e) => !predicate(e)).map((e) => ({ id: e.id, status: 201 })),
+        errors: batch
+          .filter(predicate)
+          .map((e) => ({ id: e.id, status, message: `Event failed with ${status}` })),
+      },
+    });
+
+  it('should send buffered events as one ingestion batch on flush', async () => {
+    await runClient((client) =>
+      Effect.gen(function* () {
+        yield* createEvents(client);
+        expect(requests).toHaveLength(0);
+        yield* client.flush;
+      })
+    );
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/api/public/ingestion');
+    expect(requests[0].headers.authorization).toBe(
+      `Basic ${Buffer.from('pk-test:sk-test').toString('base64')}`
+    );
+
+    const [trace, generation, span] = requests[0].batch;
+    expect(trace.type).toBe('trace-create');
+    expect(trace.body).toEqual({ id: 'trace-1', sessionId: 'ses_1', name: 'Test' });
+    expect(generation.type).toBe('generation-create');
+    expect(generation.body.model).toBe('claude-sonnet');
+    expect(span.type).toBe('span-create');
+    // Observations without an id get one so updates can't duplicate them
+    expect(span.body.id).toEqual(expect.any(String));
+  });
+
+  it('should write buffered events to the outbox in one append before sending', async () => {
+    const appends: number[] = [];
+    const recordingOutbox = Layer.succeed(
+      Outbox,
+      Outbox.of({
+        append: (events) => Effect.sync(() => void appends.push(events.length)),
+        acknowledge: () => Effect.void,
+        replay: Effect.succeed([]),
+        size: Effect.succeed(0),
+      })
+    );
+
+    await runClient(
+      (client) =>
+        Effect.gen(function* () {
+          yield* createEvents(client);
+          expect(appends).toEqual([]);
+          yield* client.flush;
+        }),
+      recordingOutbox
+    );
+
+    expect(appends).toEqual([3]);
+  });
+
+  it('should keep the first startTime of an observation on later updates', async () => {
+    const startTime = new Date(1_700_000_000_000);
+
+    await runClient((client) =>
+      Effect.gen(function* () {
+        yield* client.createGeneration({ id: 'gen-1', traceId: 'trace-1', name: 'a', startTime });
+        yield* client.createGeneration({
+          id: 'gen-1',
+          traceId: 'trace-1',
+          name: 'a',
+          output: 'Hi',
+        });
+        yield* client.flush;
+      })
+    );
+
+    const [created, updated] = requests[0].batch;
+    expect(updated.type).toBe('generation-create');
+    expect(updated.body.startTime).toBe(startTime.toISOString());
+    expect(created.body.startTime).toBe(startTime.toISOString());
+  });
+
+  const createFullBatch = (client: LangfuseClient) =>
+    Effect.forEach(
+      Array.from({ length: INGESTION_BATCH_SIZE }, (_, i) => i),
+      (i) => client.createSpan({ id: `span-${i}`, traceId: 'trace-1', name: 'tool:read' }),
+      { discard: true }
+    );
+
+  it('should send a batch as soon as it is full', async () => {
+    await runClient((client) =>
+      Effect.gen(function* () {
+        yield* createFullBatch(client);
+        // Nothing is left to send; the flush only waits for the full batch
+        yield* client.flush;
+      })
+    );
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].batch).toHaveLength(INGESTION_BATCH_SIZE);
+  });
+
+  it('should not make callers wait for the retries of a full batch', async () => {
+    available = false;
+
+    await Effect.runPromise(
+      withClient((client) =>
+        Effect.gen(function* () {
+          // The retry delays never pass on the test clock, so this would hang if it waited
+          yield* createFullBatch(client);
+          yield* Effect.promise(() => vi.waitFor(() => expect(requests).toHaveLength(1)));
+        })
+      ).pipe(Effect.provide(TestContext.TestContext))
+    );
+  });
+
+  it('should retry only the events that failed with a retryable status', async () => {
+    responders.push(multiStatus(500, (e) => e.body.id === 'gen-1'));
+
+    await runClient((client) =>
+      Effect.gen(function* () {
+        yield* createEvents(client);
+        yield* client.flush;
+      })
+    );
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1].batch.map((e) => e.body.id)).toEqual(['gen-1']);
+  });
+
+  it('should surface rejected events as non-retryable errors', async () => {
+    responders.push(multiStatus(400, (e) => e.type === 'span-create'));
+
+    const error = await runClient((client) =>
+      Effect.gen(function* () {
+        yield* createEvents(client);
+        return yield* Effect.flip(client.flush);
+      })
+    );
+
+    expect(requests).toHaveLength(1);
+    expect(error._tag).toBe('LangfuseApiError');
+    expect(error.operation).toBe('flush');
+    expect(error.retryable).toBe(false);
+    expect(error.message).toContain('Event failed with 400');
+  });
+
+  it('should not retry requests failing with a client error', async () => {
+    responders.push(() => ({ status: 401, body: { message: 'Invalid credentials' } }));
+
+    const error = await runClient((client) =>
+      Effect.gen(function* () {
+        yield* createEvents(client);
+        return yield* Effect.flip(client.flush);
+      })
+    );
+
+    expect(requests).toHaveLength(1);
+    expect(error.message).toBe('Langfuse ingestion responded 401');
+    expect(error.retryable).toBe(false);
+  });
+
+  it('should drop the events of a refused request from the outbox', async () => {
+    responders.push(() => ({ status: 401, body: { message: 'Invalid credentials' } }));
+
+    const remaining = await runClient((client) =>
+      Effect.gen(function* () {
+        yield* createEvents(client);
+        yield* Effect.ignore(client.flush);
+        return yield* Effect.flatMap(Outbox, (outbox) => outbox.size);
+      })
+    );
+
+    // Replaying them on the next run would be refused again
+    expect(remaining).toBe(0);
+  });
+
+  it('should replay events a crashed run never sent', async () => {
+    const spoolDir = join(tmpdir(), `langfuse-client-test-${Date.now()}`);
+    const outboxLayer = OutboxPersistent({ ...loadConfig(), spoolDir });
+
+    try {
+      // Closing the scope without flush/shutdown leaves the events unsent
+      await runClient(createEvents, outboxLayer);
+      expect(requests).toHaveLength(0);
+
+      const remaining = await runClient(
+        (client) =>
+          Effect.gen(function* () {
+            yield* client.flush;
+            return yield* Effect.flatMap(Outbox, (outbox) => outbox.size);
+          }),
+        outboxLayer
+      );
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0].batch.map((e) => e.body.id)).toEqual([
+        'trace-1',
+        'gen-1',
+        expect.any(String),
+      ]);
+      expect(remaining).toBe(0);
+    } finally {
+      await rm(spoolDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('circuit breaker', () => {
+    // Give the stub server real time to answer requests started by the client
+    const waitForServer = Effect.promise(() => new Promise((resolve) => setTimeout(resolve, 20)));
+
+    // Advance the test clock through retry delays until the fiber is done
+    const advanceUntilDone = <A, E>(fiber: Fiber.RuntimeFiber<A, E>) =>
+      Effect.gen(function* () {
+        while (Option.isNone(yield* Fiber.poll(fiber))) {
+          yield* waitForServer;
+          yield* TestClock.adjust(Duration.seconds(1));
+        }
+        return yield* Fiber.join(fiber);
+      });
+
+    const runWithTestClock = <A, E>(use: (client: LangfuseClient) => Effect.Effect<A, E, Outbox>) =>
+      Effect.runPromise(withClient(use).pipe(Effect.provide(TestContext.TestContext)));
+
+    it('should open after consecutive failures and stop sending', async () => {
+      available = false;
+
+      await runWithTestClock((client) =>
+        Effect.gen(function* () {
+          yield* createEvents(client);
+          // The flush doesn't fail: its events wait for the circuit to close
+          yield* advanceUntilDone(yield* Effect.fork(client.flush));
+
+          expect(requests).toHaveLength(CIRCUIT_FAILURE_THRESHOLD);
+          expect(yield* client.isConnected).toBe(false);
+
+          yield* client.createSpan({ traceId: 'trace-1', name: 'tool:read' });
+          yield* client.flush;
+          expect(requests).toHaveLength(CIRCUIT_FAILURE_THRESHOLD);
+        })
+      );
+    });
+
+    it('should probe health when half-open and send the buffer once it recovers', async () => {
+      available = false;
+
+      await runWithTestClock((client) =>
+        Effect.gen(function* () {
+          yield* createEvents(client);
+          yield* advanceUntilDone(yield* Effect.fork(client.flush));
+
+          // Still down: the health check keeps the circuit open
+          yield* TestClock.adjust(CIRCUIT_RESET_TIMEOUT);
+          yield* waitForServer;
+          expect(healthChecks).toBe(1);
+          expect(yield* client.isConnected).toBe(false);
+
+          available = true;
+          yield* TestClock.adjust(CIRCUIT_RESET_TIMEOUT);
+          yield* waitForServer;
+          yield* waitForServer;
+
+          expect(healthChecks).toBe(2);
+          expect(yield* client.isConnected).toBe(true);
+          expect(requests.at(-1)?.batch.map((e) => e.body.id)).toEqual([
+            'trace-1',
+            'gen-1',
+            expect.any(String),
+          ]);
+        })
+      );
+    });
+  });
+});
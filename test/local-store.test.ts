@@ -0,0 +1,182 @@
+/**
+ * Unit tests for the local trace store and its exporter.
+ */
+import { readdir, readFile, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { Effect } from 'effect';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { makeLocalExporter } from '../src/effect/services/LocalExporter';
+import type { TraceExporter } from '../src/effect/services/TraceExporter';
+import { loadConfig, type LangfuseExporterConfig } from '../src/lib/config';
+import {
+  appendLocalRecords,
+  cleanupLocalStore,
+  createEmptyIndex,
+  getLocalStoreDir,
+  indexRecord,
+  queryLocalStore,
+  readLocalIndex,
+  writeLocalIndex,
+  type LocalRecord,
+} from '../src/lib/local-store';
+
+// Create a unique temp directory for each test run
+function createTestSpoolDir(): string {
+  return join(tmpdir(), `langfuse-local-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+}
+
+describe('local store', () => {
+  let config: LangfuseExporterConfig;
+
+  beforeEach(() => {
+    config = {
+      ...loadConfig(),
+      spoolDir: createTestSpoolDir(),
+      exporters: ['local'],
+      retentionDays: 7,
+      flushInterval: 60_000,
+    };
+  });
+
+  afterEach(async () => {
+    await rm(config.spoolDir, { recursive: true, force: true });
+  });
+
+  const runExporter = (use: (exporter: TraceExporter) => Effect.Effect<void, unknown>) =>
+    Effect.runPromise(
+      Effect.scoped(Effect.flatMap(makeLocalExporter(config), (exporter) => use(exporter)))
+    );
+
+  const exportSession = (exporter: TraceExporter, sessionId: string, model: string) =>
+    Effect.gen(function* () {
+      const traceId = `trace-${sessionId}`;
+      yield* exporter.upsertTrace({ id: traceId, sessionId, name: `Session ${sessionId}` });
+      yield* exporter.upsertGeneration({
+        id: `gen-${sessionId}`,
+        traceId,
+        name: 'assistant-response',
+        model,
+        usageDetails: { input: 10, output: 5 },
+      });
+      // Later upsert without model, as sent when text parts arrive
+      yield* exporter.upsertGeneration({
+        id: `gen-${sessionId}`,
+        traceId,
+        name: 'assistant-response',
+        output: 'Hello',
+      });
+      yield* exporter.upsertSpan({ id: `tool-${sessionId}`, traceId, name: 'tool:bash' });
+    });
+
+  describe('LocalExporter', () => {
+    it('should write exact payloads on flush', async () => {
+      await runExporter((exporter) =>
+        Effect.gen(function* () {
+          yield* exportSession(exporter, 'ses_1', 'anthropic/claude-sonnet');
+          yield* exporter.flush;
+        })
+      );
+
+      const records = await queryLocalStore(config);
+      expect(records.map((r) => r.kind)).toEqual(['trace', 'generation', 'generation', 'span']);
+      expect(records[1].data).toEqual({
+        id: 'gen-ses_1',
+        traceId: 'trace-ses_1',
+        name: 'assistant-response',
+        model: 'anthropic/claude-sonnet',
+        usageDetails: { input: 10, output: 5 },
+      });
+      expect(records.every((r) => r.sessionId === 'ses_1')).toBe(true);
+    });
+
+    it('should index records by session, model and date', async () => {
+      await runExporter((exporter) =>
+        Effect.gen(function* () {
+          yield* exportSession(exporter, 'ses_1', 'anthropic/claude-sonnet');
+          yield* exportSession(exporter, 'ses_2', 'openai/gpt-5');
+          yield* exporter.shutdown;
+        })
+      );
+
+      const today = new Date().toISOString().split('T')[0];
+      const index = await readLocalIndex(getLocalStoreDir(config));
+      expect(index.sessions.ses_1).toEqual({
+        traceId: 'trace-ses_1',
+        name: 'Session ses_1',
+        dates: [today],
+      });
+      expect(index.models['openai/gpt-5']).toEqual([today]);
+      expect(index.dates[today].records).toBe(8);
+
+      const bySession = await queryLocalStore(config, { sessionId: 'ses_2' });
+      expect(bySession).toHaveLength(4);
+
+      // Both generation records carry the model, including the update without one
+      const byModel = await queryLocalStore(config, { model: 'anthropic/claude-sonnet' });
+      expect(byModel.map((r) => r.id)).toEqual(['gen-ses_1', 'gen-ses_1']);
+
+      expect(await queryLocalStore(config, { date: '2020-01-01' })).toEqual([]);
+    });
+
+    it('should keep session lookups across restarts', async () => {
+      await runExporter((exporter) =>
+        Effect.gen(function* () {
+          yield* exportSession(exporter, 'ses_1', 'anthropic/claude-sonnet');
+          yield* exporter.flush;
+        })
+      );
+
+      // A restarted plugin only upserts observations for an existing trace
+      await runExporter((exporter) =>
+        Effect.gen(function* () {
+          yield* exporter.upsertSpan({ id: 'tool-2', traceId: 'trace-ses_1', name: 'tool:read' });
+          yield* exporter.flush;
+        })
+      );
+
+      const records = await queryLocalStore(config, { sessionId: 'ses_1' });
+      expect(records.map((r) => r.id)).toContain('tool-2');
+    });
+  });
+
+  describe('cleanupLocalStore', () => {
+    it('should apply retention and drop deleted days from the index', async () => {
+      const dir = getLocalStoreDir(config);
+      const oldTimestamp = Date.parse('2020-01-01T12:00:00Z');
+      const oldRecord: LocalRecord = {
+        timestamp: oldTimestamp,
+        kind: 'trace',
+        id: 'trace-old',
+        traceId: 'trace-old',
+        sessionId: 'ses_old',
+        data: {},
+      };
+      const newRecord: LocalRecord = { ...oldRecord, timestamp: Date.now(), sessionId: 'ses_new' };
+
+      await appendLocalRecords(dir, [oldRecord, newRecord]);
+      const index = createEmptyIndex();
+      indexRecord(index, oldRecord);
+      indexRecord(index, newRecord);
+      await writeLocalIndex(dir, index);
+
+      // Age the old file past retention
+      const oldDate = new Date(oldTimestamp);
+      await utimes(join(dir, 'traces-2020-01-01.jsonl'), oldDate, oldDate);
+      await writeFile(join(dir, 'notes.txt'), 'keep me');
+
+      await cleanupLocalStore(config);
+
+      const files = await readdir(dir);
+      expect(files).not.toContain('traces-2020-01-01.jsonl');
+      expect(files).toContain('notes.txt');
+
+      const cleaned = JSON.parse(await readFile(join(dir, 'index.json'), 'utf-8'));
+      expect(Object.keys(cleaned.dates)).toHaveLength(1);
+      expect(cleaned.sessions.ses_old).toBeUndefined();
+      expect(cleaned.sessions.ses_new).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Unit tests for the OTLP/HTTP exporter, run against a local stub collector.
+ */
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import { Effect } from 'effect';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { makeOtlpExporter, toOtlpSpanId } from '../src/effect/services/OtlpExporter';
+import type { TraceExporter } from '../src/effect/services/TraceExporter';
+import { loadConfig, type LangfuseExporterConfig } from '../src/lib/config';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+}
+
+interface OtlpJsonSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: Array<{ key: string; value: Record<string, unknown> }>;
+  status?: { code: number; message?: string };
+}
+
+const TRACE_ID = '0123abcd-4567-89ab-cdef-0123456789ab';
+const GENERATION_ID = 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee';
+const TOOL_ID = '11111111-2222-3333-4444-555555555555';
+
+describe('OtlpExporter', () => {
+  let server: Server;
+  let requests: ReceivedRequest[];
+  let responseStatus: number;
+  let endpoint: string;
+
+  beforeEach(async () => {
+    requests = [];
+    responseStatus = 200;
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        requests.push({ headers: req.headers, body: Buffer.concat(chunks) });
+        res.writeHead(responseStatus).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/traces`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const createConfig = (overrides: Partial<LangfuseExporterConfig> = {}) => ({
+    ...loadConfig(),
+    exporters: ['otlp' as const],
+    otlpEndpoint: endpoint,
+    otlpProtocol: 'http/json' as const,
+    otlpHeaders: { authorization: 'Bearer test-token' },
+    flushInterval: 60_000,
+    ...overrides,
+  });
+
+  const runExporter = <A, E>(
+    use: (exporter: TraceExporter) => Effect.Effect<A, E>,
+    config = createConfig()
+  ) =>
+    Effect.runPromise(
+      Effect.scoped(Effect.flatMap(makeOtlpExporter(config), (exporter) => use(exporter)))
+    );
+
+  const exportSession = (exporter: TraceExporter) =>
+    Effect.gen(function* () {
+      yield* exporter.upsertTrace({ id: TRACE_ID, sessionId: 'ses_1', name: 'Fix the bug' });
+      yield* exporter.upsertGeneration({
+        id: GENERATION_ID,
+        traceId: TRACE_ID,
+        name: 'assistant-response',
+        model: 'anthropic/claude-sonnet',
+        modelParameters: { temperature: 0.7, max_tokens: 4096, stop: 'END,STOP' },
+        usageDetails: { input: 100, output: 50, cache_read: 20 },
+        costDetails: { total: 0.0125 },
+        startTime: new Date(1_700_000_000_000),
+        endTime: new Date(1_700_000_005_000),
+      });
+      // A later upsert adds output without losing earlier fields
+      yield* exporter.upsertGeneration({
+        id: GENERATION_ID,
+        traceId: TRACE_ID,
+        name: 'assistant-response',
+        output: 'Done',
+      });
+      yield* exporter.upsertSpan({
+        id: TOOL_ID,
+        traceId: TRACE_ID,
+        parentObservationId: GENERATION_ID,
+        name: 'tool:bash',
+        input: { command: 'ls' },
+        output: 'failed',
+        metadata: { tool: 'bash', status: 'error', call_id: 'call_1' },
+        level: 'ERROR',
+        statusMessage: 'exit code 1',
+        startTime: new Date(1_700_000_001_000),
+        endTime: new Date(1_700_000_002_000),
+      });
+    });
+
+  const parseSpans = (request: ReceivedRequest): OtlpJsonSpan[] =>
+    JSON.parse(request.body.toString('utf-8')).resourceSpans[0].scopeSpans[0].spans;
+
+  const attributes = (span: OtlpJsonSpan) =>
+    Object.fromEntries(span.attributes.map((a) => [a.key, Object.values(a.value)[0]]));
+
+  it('should send ended spans on flush with GenAI attributes', async () => {
+    await runExporter((exporter) =>
+      Effect.gen(function* () {
+        yield* exportSession(exporter);
+        yield* exporter.flush;
+      })
+    );
+
+    expect(requests[0].headers['content-type']).toBe('application/json');
+    expect(requests[0].headers.authorization).toBe('Bearer test-token');
+
+    const spans = parseSpans(requests[0]);
+    const generation = spans.find((s) => s.name === 'chat claude-sonnet');
+    const tool = spans.find((s) => s.name === 'execute_tool bash');
+
+    expect(generation).toBeDefined();
+    expect(generation?.traceId).toBe('0123abcd456789abcdef0123456789ab');
+    expect(generation?.startTimeUnixNano).toBe('1700000000000000000');
+    expect(attributes(generation!)).toMatchObject({
+      'gen_ai.operation.name': 'chat',
+      'gen_ai.provider.name': 'anthropic',
+      'gen_ai.request.model': 'claude-sonnet',
+      'gen_ai.request.temperature': 0.7,
+      'gen_ai.request.max_tokens': '4096',
+      'gen_ai.request.stop_sequences': {
+        values: [{ stringValue: 'END' }, { stringValue: 'STOP' }],
+      },
+      'gen_ai.usage.input_tokens': '100',
+      'gen_ai.usage.output_tokens': '50',
+      'gen_ai.usage.cache_read_input_tokens': '20',
+      'gen_ai.usage.cost': 0.0125,
+      'gen_ai.output.messages': 'Done',
+    });
+
+    expect(tool?.parentSpanId).toBe(toOtlpSpanId(GENERATION_ID));
+    expect(tool?.status).toEqual({ code: 2, message: 'exit code 1' });
+    expect(attributes(tool!)).toMatchObject({
+      'gen_ai.operation.name': 'execute_tool',
+      'gen_ai.tool.name': 'bash',
+      'gen_ai.tool.call.id': 'call_1',
+      'gen_ai.tool.call.arguments': '{"command":"ls"}',
+    });
+
+    // The session root span stays open until shutdown
+    expect(spans.some((s) => s.name === 'Fix the bug')).toBe(false);
+  });
+
+  it('should send the session root span on shutdown', async () => {
+    await runExporter((exporter) =>
+      Effect.gen(function* () {
+        yield* exportSession(exporter);
+        yield* exporter.flush;
+        yield* exporter.shutdown;
+      })
+    );
+
+    const spans = requests.flatMap(parseSpans);
+    const root = spans.find((s) => s.name === 'Fix the bug');
+    const generation = spans.find((s) => s.name === 'chat claude-sonnet');
+
+    expect(spans).toHaveLength(3);
+    expect(root?.parentSpanId).toBeUndefined();
+    expect(attributes(root!)).toMatchObject({ 'session.id': 'ses_1' });
+    expect(generation?.parentSpanId).toBe(root?.spanId);
+  });
+
+  it('should drop updates to a span after it was sent', async () => {
+    await runExporter((exporter) =>
+      Effect.gen(function* () {
+        yield* exportSession(exporter);
+        yield* exporter.flush;
+        // Sending the generation again would duplicate it in the backend
+        yield* exporter.upsertGeneration({
+          id: GENERATION_ID,
+          traceId: TRACE_ID,
+          name: 'assistant-response',
+          input: 'Fix the bug',
+        });
+        yield* exporter.flush;
+      })
+    );
+
+    expect(requests).toHaveLength(1);
+    const spanIds = requests.flatMap(parseSpans).map((s) => s.spanId);
+    expect(spanIds.filter((id) => id === toOtlpSpanId(GENERATION_ID))).toHaveLength(1);
+  });
+
+  it('should hold ended spans from the background export until they settle', async () => {
+    await runExporter(
+      (exporter) =>
+        Effect.gen(function* () {
+          yield* exportSession(exporter);
+          yield* Effect.sleep('100 millis');
+        }),
+      createConfig({ flushInterval: 10 })
+    );
+
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should encode protobuf when configured', async () => {
+    await runExporter(
+      (exporter) =>
+        Effect.gen(function* () {
+          yield* exportSession(exporter);
+          yield* exporter.flush;
+        }),
+      createConfig({ otlpProtocol: 'http/protobuf' })
+    );
+
+    const body = requests[0].body;
+    expect(requests[0].headers['content-type']).toBe('application/x-protobuf');
+    // ExportTraceServiceRequest starts with field 1 (resource_spans), length-delimited
+    expect(body[0]).toBe(0x0a);
+    expect(body.includes(Buffer.from('chat claude-sonnet'))).toBe(true);
+    expect(body.includes(Buffer.from('gen_ai.tool.name'))).toBe(true);
+    expect(body.includes(Buffer.from(toOtlpSpanId(GENERATION_ID), 'hex'))).toBe(true);
+  });
+
+  it('should keep spans buffered and fail retryably when the collector errors', async () => {
+    responseStatus = 503;
+
+    const error = await runExporter((exporter) =>
+      Effect.gen(function* () {
+        yield* exportSession(exporter);
+        const failure = yield* Effect.flip(exporter.flush);
+
+        // Spans are still pending, so the next flush sends them again
+        responseStatus = 200;
+        yield* exporter.flush;
+        return failure;
+      })
+    );
+
+    expect(error.exporter).toBe('otlp');
+    expect(error.retryable).toBe(true);
+    expect(requests).toHaveLength(2);
+    expect(parseSpans(requests[1])).toHaveLength(2);
+  });
+
+  it('should not retry client errors', async () => {
+    responseStatus = 400;
+
+    const error = await runExporter((exporter) =>
+      Effect.gen(function* () {
+        yield* exportSession(exporter);
+        return yield* Effect.flip(exporter.flush);
+      })
+    );
+
+    expect(error.retryable).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Unit tests for the persistent Outbox.
+ */
+import { readdir, readFile, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { Effect } from 'effect';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { Outbox, OutboxPersistent } from '../src/effect/services/Outbox';
+import { loadConfig, type LangfuseExporterConfig } from '../src/lib/config';
+import { createIngestionEvent } from '../src/lib/langfuse-ingestion';
+
+// Create a unique temp directory for each test run
+function createTestSpoolDir(): string {
+  return join(
+    tmpdir(),
+    `langfuse-outbox-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  );
+}
+
+describe('OutboxPersistent', () => {
+  let config: LangfuseExporterConfig;
+
+  beforeEach(() => {
+    config = { ...loadConfig(), spoolDir: createTestSpoolDir(), retentionDays: 7 };
+  });
+
+  afterEach(async () => {
+    await rm(config.spoolDir, { recursive: true, force: true });
+  });
+
+  // Each call builds a fresh layer, like a plugin restart
+  const runWithOutbox = <A, E>(effect: Effect.Effect<A, E, Outbox>) =>
+    Effect.runPromise(Effect.provide(effect, OutboxPersistent(config)));
+
+  const segments = async () =>
+    (await readdir(config.spoolDir)).filter((f) => f.startsWith('outbox-'));
+
+  const createEvent = (id: string) => createIngestionEvent('span-create', { id, name: 'tool' });
+
+  // Beyond any pid_max, so no process with it is running
+  const deadPid = 999_999_999;
+
+  it('should delete a segment once all of its events are acknowledged', async () => {
+    const [first, second] = [createEvent('span-1'), createEvent('span-2')];
+
+    await runWithOutbox(
+      Effect.gen(function* () {
+        const outbox = yield* Outbox;
+        yield* outbox.append([first, second]);
+        expect(yield* outbox.size).toBe(2);
+
+        yield* outbox.acknowledge([first.id]);
+        expect(yield* outbox.size).toBe(1);
+      })
+    );
+
+    const [segment] = await segments();
+    const lines = (await readFile(join(config.spoolDir, segment), 'utf-8')).trim().split('\n');
+    expect(lines.map((line) => Object.keys(JSON.parse(line))[0])).toEqual([
+      'event',
+      'event',
+      'ack',
+    ]);
+
+    // The next run loads the segment at startup, so it can finish acknowledging it
+    await runWithOutbox(
+      Effect.gen(function* () {
+        const outbox = yield* Outbox;
+        yield* outbox.acknowledge([second.id]);
+      })
+    );
+    expect(await segments()).toEqual([]);
+  });
+
+  it('should replay unacknowledged events after a restart', async () => {
+    const events = [createEvent('span-1'), createEvent('span-2'), createEvent('span-3')];
+
+    await runWithOutbox(
+      Effect.gen(function* () {
+        const outbox = yield* Outbox;
+        yield* outbox.append(events);
+        yield* outbox.acknowledge([events[1].id]);
+      })
+    );
+
+    const replayed = await runWithOutbox(
+      Effect.gen(function* () {
+        const outbox = yield* Outbox;
+        return yield* outbox.replay;
+      })
+    );
+
+    expect(replayed).toEqual([events[0], events[2]]);
+  });
+
+  it('should skip torn lines and drop segments past retention', async () => {
+    const event = createEvent('span-1');
+    const old = join(config.spoolDir, `outbox-1-${deadPid}-0.jsonl`);
+    const torn = join(config.spoolDir, `outbox-2-${deadPid}-0.jsonl`);
+
+    await runWithOutbox(Effect.void);
+    await writeFile(old, `${JSON.stringify({ event: createEvent('old') })}\n`);
+    await writeFile(torn, `${JSON.stringify({ event })}\n{"event":{"id":`);
+
+    const oldDate = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000);
+    await utimes(old, oldDate, oldDate);
+
+    const replayed = await runWithOutbox(
+      Effect.gen(function* () {
+        const outbox = yield* Outbox;
+        return yield* outbox.replay;
+      })
+    );
+
+    expect(replayed).toEqual([event]);
+    // The torn segment was claimed under a name of this process
+    const [claimed] = await segments();
+    expect(claimed).toMatch(new RegExp(`^outbox-\\d+-${process.pid}-\\d+\\.jsonl$`));
+  });
+
+  it('should only adopt segments of processes that are gone', async () => {
+    const [running, gone] = [createEvent('span-running'), createEvent('span-gone')];
+    // pid 1 always exists
+    const runningSegment = 'outbox-1-1-0.jsonl';
+
+    await runWithOutbox(Effect.void);
+    await writeFile(
+      join(config.spoolDir, runningSegment),
+      `${JSON.stringify({ event: running })}\n`
+    );
+    await writeFile(
+      join(config.spoolDir, `outbox-2-${deadPid}-0.jsonl`),
+      `${JSON.stringify({ event: gone })}\n`
+    );
+
+    const replayed = await runWithOutbox(
+      Effect.gen(function* () {
+        const outbox = yield* Outbox;
+        const events = yield* outbox.replay;
+
+        // A second outbox of this process leaves the open one's segments alone
+        const second = yield* Effect.provide(Outbox, OutboxPersistent(config));
+        expect(yield* second.replay).toEqual([]);
+        return events;
+      })
+    );
+
+    expect(replayed).toEqual([gone]);
+    expect(await segments()).toContain(runningSegment);
+    expect(await segments()).not.toContain(`outbox-2-${deadPid}-0.jsonl`);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+
+import { loadConfig } from '../src/lib/config';
+import { findModelPrice, loadPricingCatalog, resolveCost } from '../src/lib/pricing';
+
+describe('pricing', () => {
+  const catalog = loadPricingCatalog({
+    ...loadConfig(),
+    modelPricing: { 'ollama/llama3': { input: 1, output: 2 } },
+  });
+
+  it('should find bundled prices by provider/model, ignoring version suffixes', () => {
+    expect(findModelPrice(catalog, 'anthropic/claude-sonnet-4-5-20250929')).toMatchObject({
+      input: 3,
+      output: 15,
+    });
+    // Same model under a gateway's provider ID
+    expect(findModelPrice(catalog, 'opencode/claude-sonnet-4-5')).toMatchObject({ input: 3 });
+    expect(findModelPrice(catalog, 'ollama/llama3')).toEqual({ input: 1, output: 2 });
+    expect(findModelPrice(catalog, 'ollama/unknown')).toBeUndefined();
+  });
+
+  it('should prefer the reported cost and estimate per token type otherwise', () => {
+    const usage = {
+      promptTokens: 1_000_000,
+      completionTokens: 500_000,
+      reasoningTokens: 500_000,
+      cacheReadTokens: 2_000_000,
+    };
+
+    expect(resolveCost(catalog, 'ollama/llama3', 0.5, usage)).toEqual({
+      details: { total: 0.5 },
+      source: 'reported',
+    });
+    expect(resolveCost(catalog, 'ollama/llama3', 0, usage)).toEqual({
+      // Reasoning uses the output price and cache reads the input price by default
+      details: { input: 1, output: 1, reasoning: 1, cache_read: 2, total: 5 },
+      source: 'estimated',
+    });
+    expect(resolveCost(catalog, 'ollama/unknown', 0, usage)).toBeUndefined();
+  });
+});
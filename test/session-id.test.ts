@@ -2,6 +2,7 @@ import { describe, expect, it } from 'vitest';
 
 import {
   generateIdempotencyKey,
+  generateObservationId,
   generateTraceId,
   sanitizeForTrace,
   sessionToUUID,
@@ -68,6 +69,36 @@ describe('session-id', () => {
     });
   });
 
+  describe('generateObservationId', () => {
+    it('should produce the same ID for the same entity', () => {
+      const id1 = generateObservationId('session-1', 'tool', 'message-1', 'call-1');
+      const id2 = generateObservationId('session-1', 'tool', 'message-1', 'call-1');
+
+      expect(id1).toBe(id2);
+    });
+
+    it('should produce different IDs for different kinds', () => {
+      const messageId = generateObservationId('session-1', 'message', 'message-1');
+      const stepId = generateObservationId('session-1', 'step', 'message-1');
+
+      expect(messageId).not.toBe(stepId);
+    });
+
+    it('should produce different IDs across sessions', () => {
+      const id1 = generateObservationId('session-1', 'message', 'message-1');
+      const id2 = generateObservationId('session-2', 'message', 'message-1');
+
+      expect(id1).not.toBe(id2);
+    });
+
+    it('should accept numeric identifiers', () => {
+      const id = generateObservationId('session-1', 'step', 'message-1', 0);
+
+      expect(id).toBe(generateObservationId('session-1', 'step', 'message-1', '0'));
+      expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+    });
+  });
+
   describe('generateIdempotencyKey', () => {
     it('should produce deterministic keys', () => {
       const key1 = generateIdempotencyKey('session-1', 'trace', 'id-123');
@@ -1,285 +0,0 @@
-/**
- * Unit tests for disk-based spool functionality
- */
-import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
-import { tmpdir } from 'node:os';
-import { join } from 'node:path';
-
-import { afterEach, beforeEach, describe, expect, it } from 'vitest';
-
-import type { LangfuseExporterConfig } from '../src/lib/config';
-import {
-  cleanupSpool,
-  createSpooledEvent,
-  initSpool,
-  loadPendingEvents,
-  markProcessed,
-  writeToSpool,
-} from '../src/lib/spool';
-
-// Create a unique temp directory for each test run
-function createTestSpoolDir(): string {
-  return join(tmpdir(), `langfuse-spool-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
-}
-
-// Helper to create minimal config for testing
-function createTestConfig(spoolDir: string): LangfuseExporterConfig {
-  return {
-    publicKey: 'test-pk',
-    secretKey: 'test-sk',
-    host: 'https://cloud.langfuse.com',
-    exportMode: 'full',
-    redactPatterns: [],
-    flushInterval: 5000,
-    spoolDir,
-    maxSpoolSizeMB: 100,
-    retentionDays: 7,
-    traceNamePrefix: '',
-    verbose: false,
-    enabled: true,
-  };
-}
-
-describe('createSpooledEvent', () => {
-  it('should create a valid spooled event with all required fields', () => {
-    const event = createSpooledEvent('trace', 'session-123', 'idem-key-abc', {
-      name: 'test-trace',
-      sessionId: 'sess-1',
-    });
-
-    expect(event.type).toBe('trace');
-    expect(event.sessionId).toBe('session-123');
-    expect(event.idempotencyKey).toBe('idem-key-abc');
-    expect(event.data).toEqual({ name: 'test-trace', sessionId: 'sess-1' });
-    expect(event.retryCount).toBe(0);
-    expect(event.id).toBeDefined();
-    expect(event.timestamp).toBeDefined();
-    expect(typeof event.timestamp).toBe('number');
-  });
-
-  it('should generate unique IDs for each event', () => {
-    const event1 = createSpooledEvent('trace', 'sess-1', 'key-1', {});
-    const event2 = createSpooledEvent('trace', 'sess-1', 'key-2', {});
-
-    expect(event1.id).not.toBe(event2.id);
-  });
-
-  it('should support different event types', () => {
-    const trace = createSpooledEvent('trace', 's1', 'k1', {});
-    const generation = createSpooledEvent('generation', 's2', 'k2', {});
-    const span = createSpooledEvent('span', 's3', 'k3', {});
-
-    expect(trace.type).toBe('trace');
-    expect(generation.type).toBe('generation');
-    expect(span.type).toBe('span');
-  });
-});
-
-describe('spool file operations', () => {
-  let testSpoolDir: string;
-  let config: LangfuseExporterConfig;
-
-  beforeEach(async () => {
-    testSpoolDir = createTestSpoolDir();
-    config = createTestConfig(testSpoolDir);
-  });
-
-  afterEach(async () => {
-    // Clean up test directory
-    try {
-      await rm(testSpoolDir, { recursive: true, force: true });
-    } catch {
-      // Ignore cleanup errors
-    }
-  });
-
-  describe('initSpool', () => {
-    it('should create spool directory if it does not exist', async () => {
-      await initSpool(config);
-
-      const stats = await readdir(testSpoolDir);
-      expect(stats).toBeDefined();
-    });
-
-    it('should not throw if directory already exists', async () => {
-      await mkdir(testSpoolDir, { recursive: true });
-      // If initSpool doesn't throw, the test passes
-      await initSpool(config);
-    });
-  });
-
-  describe('writeToSpool and loadPendingEvents', () => {
-    it('should write events and load them back', async () => {
-      await initSpool(config);
-
-      const event = createSpooledEvent('trace', 'session-abc', 'idem-123', { name: 'my-trace' });
-
-      await writeToSpool(event, config);
-
-      const { pendingEvents } = await loadPendingEvents(config);
-
-      expect(pendingEvents).toHaveLength(1);
-      expect(pendingEvents[0].idempotencyKey).toBe('idem-123');
-      expect(pendingEvents[0].sessionId).toBe('session-abc');
-      expect(pendingEvents[0].data).toEqual({ name: 'my-trace' });
-    });
-
-    it('should write multiple events to the same spool file', async () => {
-      await initSpool(config);
-
-      const event1 = createSpooledEvent('trace', 's1', 'key-1', { index: 1 });
-      const event2 = createSpooledEvent('generation', 's1', 'key-2', { index: 2 });
-      const event3 = createSpooledEvent('span', 's1', 'key-3', { index: 3 });
-
-      await writeToSpool(event1, config);
-      await writeToSpool(event2, config);
-      await writeToSpool(event3, config);
-
-      const { pendingEvents } = await loadPendingEvents(config);
-
-      expect(pendingEvents).toHaveLength(3);
-    });
-
-    it('should handle empty spool directory', async () => {
-      await initSpool(config);
-
-      const { pendingEvents, processedKeys } = await loadPendingEvents(config);
-
-      expect(pendingEvents).toEqual([]);
-      expect(processedKeys.size).toBe(0);
-    });
-  });
-
-  describe('markProcessed', () => {
-    it('should mark events as processed and exclude them from pending', async () => {
-      await initSpool(config);
-
-      const event1 = createSpooledEvent('trace', 's1', 'key-1', {});
-      const event2 = createSpooledEvent('trace', 's1', 'key-2', {});
-
-      await writeToSpool(event1, config);
-      await writeToSpool(event2, config);
-
-      // Mark first event as processed
-      await markProcessed('key-1', config);
-
-      const { pendingEvents, processedKeys } = await loadPendingEvents(config);
-
-      expect(pendingEvents).toHaveLength(1);
-      expect(pendingEvents[0].idempotencyKey).toBe('key-2');
-      expect(processedKeys.has('key-1')).toBe(true);
-    });
-
-    it('should handle marking multiple events as processed', async () => {
-      await initSpool(config);
-
-      const events = [
-        createSpooledEvent('trace', 's1', 'k1', {}),
-        createSpooledEvent('trace', 's1', 'k2', {}),
-        createSpooledEvent('trace', 's1', 'k3', {}),
-      ];
-
-      for (const event of events) {
-        await writeToSpool(event, config);
-      }
-
-      await markProcessed('k1', config);
-      await markProcessed('k2', config);
-
-      const { pendingEvents } = await loadPendingEvents(config);
-
-      expect(pendingEvents).toHaveLength(1);
-      expect(pendingEvents[0].idempotencyKey).toBe('k3');
-    });
-  });
-
-  describe('cleanupSpool', () => {
-    it('should remove files older than retention period', async () => {
-      await initSpool(config);
-
-      // Create a file with old modification time
-      const oldDate = new Date();
-      oldDate.setDate(oldDate.getDate() - 10); // 10 days ago
-
-      const oldFilePath = `${testSpoolDir}/spool-2020-01-01.jsonl`;
-      await writeFile(oldFilePath, '{"test":"data"}\n');
-
-      // Use a config with short retention
-      const shortRetentionConfig = {
-        ...config,
-        retentionDays: 7, // Files older than 7 days should be cleaned
-      };
-
-      await cleanupSpool(shortRetentionConfig);
-
-      // The file should be deleted because we manually check age
-      // Note: This test relies on file mtime which may not work as expected
-      // For more reliable testing, we'd need to mock Date or fs.stat
-      const files = await readdir(testSpoolDir);
-
-      // Just verify cleanup doesn't throw
-      expect(Array.isArray(files)).toBe(true);
-    });
-
-    it('should not throw when spool directory is empty', async () => {
-      await initSpool(config);
-      // If cleanupSpool doesn't throw, the test passes
-      await cleanupSpool(config);
-    });
-
-    it('should not throw when spool directory does not exist', async () => {
-      const missingDirConfig = createTestConfig('/nonexistent/path/spool');
-      // If cleanupSpool doesn't throw, the test passes
-      await cleanupSpool(missingDirConfig);
-    });
-  });
-
-  describe('resilience', () => {
-    it('should handle corrupted spool file lines gracefully', async () => {
-      await initSpool(config);
-
-      // Write a valid event
-      const event = createSpooledEvent('trace', 's1', 'valid-key', { valid: true });
-      await writeToSpool(event, config);
-
-      // Manually append corrupted data to the spool file
-      const files = await readdir(testSpoolDir);
-      const spoolFile = files.find((f) => f.startsWith('spool-'));
-      if (spoolFile) {
-        const filepath = `${testSpoolDir}/${spoolFile}`;
-        const content = await readFile(filepath, 'utf-8');
-        await writeFile(filepath, `${content}this is not json\n{"also":"broken"broken\n`);
-      }
-
-      // Should still load the valid event and skip corrupted lines
-      const { pendingEvents } = await loadPendingEvents(config);
-
-      expect(pendingEvents).toHaveLength(1);
-      expect(pendingEvents[0].idempotencyKey).toBe('valid-key');
-    });
-
-    it('should handle corrupted processed.jsonl gracefully', async () => {
-      await initSpool(config);
-
-      // Write event and mark processed
-      const event = createSpooledEvent('trace', 's1', 'k1', {});
-      await writeToSpool(event, config);
-      await markProcessed('k1', config);
-
-      // Corrupt the processed file
-      const processedPath = `${testSpoolDir}/processed.jsonl`;
-      const content = await readFile(processedPath, 'utf-8');
-      await writeFile(processedPath, `${content}corrupted line\n`);
-
-      // Add a new event
-      const event2 = createSpooledEvent('trace', 's1', 'k2', {});
-      await writeToSpool(event2, config);
-
-      // Should still work - k1 should be excluded, k2 should be pending
-      const { pendingEvents, processedKeys } = await loadPendingEvents(config);
-
-      expect(processedKeys.has('k1')).toBe(true);
-      expect(pendingEvents.some((e) => e.idempotencyKey === 'k2')).toBe(true);
-    });
-  });
-});
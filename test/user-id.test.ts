@@ -0,0 +1,27 @@
+import { userInfo } from 'node:os';
+
+import { describe, expect, it } from 'vitest';
+
+import { loadConfig } from '../src/lib/config';
+import { resolveUserId } from '../src/lib/user-id';
+
+describe('resolveUserId', () => {
+  const config = { ...loadConfig(), userId: 'dev@example.com' };
+
+  it('should use the configured userId for the env source', async () => {
+    expect(await resolveUserId({ ...config, userIdSource: 'env' })).toBe('dev@example.com');
+    expect(await resolveUserId({ ...config, userId: '', userIdSource: 'env' })).toBeUndefined();
+  });
+
+  it('should use the OS username for the os source', async () => {
+    expect(await resolveUserId({ ...config, userIdSource: 'os' })).toBe(userInfo().username);
+  });
+
+  it('should prefer the configured userId with auto', async () => {
+    expect(await resolveUserId({ ...config, userIdSource: 'auto' })).toBe('dev@example.com');
+  });
+
+  it('should not resolve a userId for the none source', async () => {
+    expect(await resolveUserId({ ...config, userIdSource: 'none' })).toBeUndefined();
+  });
+});